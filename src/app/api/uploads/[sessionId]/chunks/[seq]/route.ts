@@ -0,0 +1,22 @@
+import {
+  parseSeq,
+  parseSessionId,
+  saveUploadChunk,
+  uploadErrorResponse,
+} from '@/lib/uploadStorage';
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { sessionId: string; seq: string } }
+) {
+  try {
+    await saveUploadChunk(
+      parseSessionId(params.sessionId),
+      parseSeq(params.seq),
+      await request.arrayBuffer()
+    );
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return uploadErrorResponse(error);
+  }
+}
@@ -0,0 +1,24 @@
+import {
+  finalizeUploadSession,
+  parseSessionId,
+  uploadErrorResponse,
+} from '@/lib/uploadStorage';
+
+export async function POST(
+  request: Request,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { chunkCount } = await request.json();
+    if (!Number.isInteger(chunkCount) || chunkCount < 0) {
+      return Response.json({ error: 'Invalid chunk count' }, { status: 400 });
+    }
+    const info = await finalizeUploadSession(
+      parseSessionId(params.sessionId),
+      chunkCount
+    );
+    return Response.json(info);
+  } catch (error) {
+    return uploadErrorResponse(error);
+  }
+}
@@ -0,0 +1,32 @@
+import {
+  deleteUploadSession,
+  getUploadStatus,
+  parseSessionId,
+  uploadErrorResponse,
+} from '@/lib/uploadStorage';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const status = await getUploadStatus(parseSessionId(params.sessionId));
+    return Response.json(status);
+  } catch (error) {
+    return uploadErrorResponse(error);
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    await deleteUploadSession(parseSessionId(params.sessionId));
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return uploadErrorResponse(error);
+  }
+}
@@ -0,0 +1,18 @@
+import {
+  createUploadSession,
+  parseSessionId,
+  uploadErrorResponse,
+} from '@/lib/uploadStorage';
+
+export async function POST(request: Request) {
+  try {
+    const { sessionId, mimeType } = await request.json();
+    const info = await createUploadSession(
+      parseSessionId(String(sessionId)),
+      typeof mimeType === 'string' ? mimeType : 'application/octet-stream'
+    );
+    return Response.json(info, { status: 201 });
+  } catch (error) {
+    return uploadErrorResponse(error);
+  }
+}
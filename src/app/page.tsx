@@ -3,7 +3,7 @@ import { NoteAudio } from '@/components/NoteAudio';
 export default function Home() {
   return (
     <div className='flex flex-col items-center justify-center h-screen'>
-      <NoteAudio />
+      <NoteAudio uploadEndpoint='/api/uploads' />
     </div>
   );
 }
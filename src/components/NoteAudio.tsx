@@ -1,23 +1,136 @@
 'use client';
 
-import { Play, SquareIcon, Trash2 } from 'lucide-react';
+import {
+  Play,
+  Redo2,
+  Repeat,
+  Scissors,
+  SquareIcon,
+  Trash2,
+  Undo2,
+  Upload,
+  Volume2,
+  VolumeX,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
 import { Pause } from 'lucide-react';
-import { AudioVisualizer } from 'react-audio-visualize';
 
 import { Button } from './ui/button';
 import { cn } from '../lib/utils';
 import { useAudioPlayer } from '../hooks/audioPlayer/useAudioPlayer';
 import { NoteLiveAudioVisualizer } from './NoteLiveAudioVisualizer';
-import { useAudioRecorder } from '../hooks/useAudioRec';
+import { useAudioRecorder } from '../hooks/audioRecorder/useAudioRecorder';
+import { useAudioEditor } from '../hooks/audioEditor/useAudioEditor';
+import type {
+  InputWarning,
+  InterruptionCause,
+  RecorderErrorCode,
+  RecordingMarker,
+  RecordingStopReason,
+  VoiceActivityOptions,
+} from '../hooks/audioRecorder/AudioRecorder';
+import type { PunchInMode } from '../lib/audio/spliceAudio';
+import { acceptedAudioFormatsString } from '../hooks/audioConst';
+import { NoteAudioMarkers } from './NoteAudioMarkers';
+import { NoteAudioLevelMeter } from './NoteAudioLevelMeter';
+import {
+  NoteAudioWaveform,
+  useWaveformView,
+  type WaveformMode,
+} from './NoteAudioWaveform';
+import { useChunkUploader } from '../hooks/chunkUploader/useChunkUploader';
+import type { ChunkUploadStatus } from '../hooks/chunkUploader/ChunkUploader';
+import type { AudioPlayerErrorCode } from '../hooks/audioPlayer/AudioPlayer';
 
 type NoteAudioModProps = {
   showNudge?: boolean;
   className?: string;
-  onAudioChange?: (blob: Blob | null) => void;
+  onAudioChange?: (blob: Blob | null, markers?: RecordingMarker[]) => void;
   onLoadingChange?: (isLoading: boolean) => void;
   initialAudioUrl?: string;
   disabled?: boolean;
+  maxDurationSeconds?: number;
+  maxSizeBytes?: number;
+  // Records uncompressed WAV, e.g. for transcription
+  lossless?: boolean;
+  // Streams every take while recording, e.g. '/api/uploads'
+  uploadEndpoint?: string;
+  // What to do with long silences, e.g. while the animal is examined
+  silenceMode?: VoiceActivityOptions['mode'];
+};
+
+const RECORDER_ERROR_MESSAGES: Record<RecorderErrorCode, string> = {
+  PERMISSION_DENIED:
+    'No hay permiso para usar el micrófono. Actívalo en los ajustes del navegador y vuelve a intentarlo.',
+  NO_DEVICE:
+    'No se ha encontrado ningún micrófono. Conecta uno y vuelve a intentarlo.',
+  DEVICE_BUSY:
+    'El micrófono está siendo usado por otra aplicación. Ciérrala y vuelve a intentarlo.',
+  UNSUPPORTED_MIME:
+    'Este navegador no puede grabar en un formato compatible. Prueba con otro navegador.',
+  NO_DATA:
+    'No se ha recibido audio del micrófono. Comprueba que no esté silenciado y vuelve a grabar.',
+  TRACK_ENDED:
+    'El micrófono sigue ocupado o silenciado. Vuelve a intentarlo cuando termine la llamada.',
+  MERGE_FAILED:
+    'No se ha podido unir la nueva toma a la grabación. La toma se podrá recuperar al volver a abrir la aplicación.',
+  EDIT_FAILED:
+    'No se han podido aplicar los cortes. La grabación original no ha cambiado.',
+  FILE_TOO_LARGE: 'El archivo es demasiado grande para importarlo.',
+  FILE_TOO_LONG: 'El archivo supera la duración máxima permitida.',
+  FILE_UNSUPPORTED: `El archivo no es un audio compatible. Formatos admitidos: ${acceptedAudioFormatsString()}.`,
+  FILE_UNDECODABLE:
+    'No se ha podido leer el audio del archivo. Puede estar dañado.',
+  UNKNOWN: 'Error inesperado al grabar. Vuelve a intentarlo.',
+};
+
+const PLAYER_ERROR_MESSAGES: Record<AudioPlayerErrorCode, string> = {
+  LOAD_ERROR: 'No se ha podido descargar el audio. Comprueba la conexión.',
+  DECODE_ERROR:
+    'El audio está dañado o en un formato que no se puede reproducir.',
+  PLAYBACK_ERROR: 'No se ha podido reproducir el audio.',
+};
+
+const STOP_REASON_MESSAGES: Partial<Record<RecordingStopReason, string>> = {
+  maxDuration: 'Grabación detenida: se alcanzó la duración máxima.',
+  maxSize: 'Grabación detenida: se alcanzó el tamaño máximo permitido.',
+};
+
+const INPUT_WARNING_MESSAGES: Record<InputWarning, string> = {
+  noSignal:
+    'No llega señal del micrófono desde hace unos segundos. Comprueba que no esté silenciado.',
+  clipping:
+    'El sonido satura. Aleja el micrófono o baja el volumen de entrada.',
+  trackMuted: 'El sistema ha silenciado el micrófono.',
+};
+
+const INTERRUPTION_MESSAGES: Record<InterruptionCause, string> = {
+  trackEnded: 'Otra aplicación ha tomado el micrófono.',
+  trackMuted: 'El sistema ha silenciado el micrófono, quizá por una llamada.',
+  audioSuspended: 'El sistema ha detenido el audio de la página.',
+  backgrounded:
+    'Se ha cortado el micrófono mientras la aplicación estaba en segundo plano.',
+};
+
+const UPLOAD_STATUS_MESSAGES: Partial<Record<ChunkUploadStatus, string>> = {
+  uploading: 'Subiendo grabación…',
+  retrying: 'Reintentando la subida…',
+  offline: 'Sin conexión: la subida continuará al reconectar.',
+  done: 'Grabación subida.',
+  error: 'No se ha podido subir la grabación.',
+};
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+const MAX_WAVEFORM_ZOOM = 64;
+
+const formatRecordingTime = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  const tenths = Math.floor((ms % 1000) / 100);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}.${tenths}`;
 };
 
 export function NoteAudio({
@@ -26,9 +139,15 @@ export function NoteAudio({
   onLoadingChange,
   initialAudioUrl,
   disabled = false,
+  maxDurationSeconds,
+  maxSizeBytes,
+  lossless,
+  uploadEndpoint,
+  silenceMode,
 }: NoteAudioModProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [displayedBlob, setDisplayedBlob] = useState<Blob | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
 
   const {
     audioUrl,
@@ -41,7 +160,42 @@ export function NoteAudio({
     status,
     currentDeviceLabel,
     stopRecording,
-  } = useAudioRecorder();
+    devices,
+    selectedDeviceId,
+    selectDevice,
+    recoverableSessions,
+    recoverSession,
+    discardSession,
+    limitWarning,
+    stopReason,
+    error: recorderError,
+    recordingTimeMs,
+    markers,
+    addMarker,
+    isStopped,
+    isProcessing,
+    canUndo,
+    undoEdit,
+    subscribeChunks,
+    importAudio,
+    applyEdits,
+    isSpeaking,
+    autoPaused,
+    inputLevel,
+    inputWarnings,
+    interruption,
+    resumeAfterInterruption,
+  } = useAudioRecorder({
+    maxDurationSeconds,
+    maxSizeBytes,
+    lossless,
+    voiceActivity: silenceMode ? { mode: silenceMode } : undefined,
+  });
+
+  const { status: uploadStatus, retryUpload } = useChunkUploader(
+    uploadEndpoint,
+    subscribeChunks
+  );
 
   const {
     isPlaying,
@@ -51,9 +205,50 @@ export function NoteAudio({
     loadAudio: loadAudioPlayer,
     disposeAudioResources,
     isLoading,
+    loadProgress,
+    error: playerError,
     currentTime,
+    duration,
+    seek,
+    playbackRate,
+    setPlaybackRate,
+    volume,
+    isMuted,
+    setVolume,
+    toggleMute,
+    normalize,
+    setNormalization,
+    loop,
+    setLoop,
+    setSkipRegions,
+    peaks,
   } = useAudioPlayer();
 
+  const {
+    cuts,
+    editedDuration,
+    hasEdits,
+    canUndo: canUndoCut,
+    canRedo: canRedoCut,
+    reset: resetEdits,
+    cut,
+    keep,
+    trimStart,
+    trimEnd,
+    clear: clearEdits,
+    undo: undoCut,
+    redo: redoCut,
+  } = useAudioEditor();
+
+  const [waveformZoom, setWaveformZoom] = useState(1);
+  const [waveformMode, setWaveformMode] = useState<WaveformMode>('seek');
+  const waveformView = useWaveformView(duration, currentTime, waveformZoom);
+
+  // Markers are reported with the blob they belong to, adding one while
+  // paused must not reload the player
+  const markersRef = useRef(markers);
+  markersRef.current = markers;
+
   // Handle initial audio if provided
   useEffect(() => {
     if (initialAudioUrl) {
@@ -72,8 +267,8 @@ export function NoteAudio({
   useEffect(() => {
     disposeAudioResources();
     if (audioUrl && recordingBlob) {
-      loadAudioPlayer(audioUrl);
-      onAudioChange?.(recordingBlob);
+      loadAudioPlayer(audioUrl, undefined, recordingBlob);
+      onAudioChange?.(recordingBlob, markersRef.current);
     }
   }, [
     audioUrl,
@@ -83,6 +278,17 @@ export function NoteAudio({
     recordingBlob,
   ]);
 
+  // Cuts belong to the version of the recording that is loaded, a new one
+  // (after a take, an undo or applying them) starts without any
+  useEffect(() => {
+    resetEdits(duration);
+  }, [duration, resetEdits]);
+
+  // Playback previews the edit by jumping over the cuts
+  useEffect(() => {
+    setSkipRegions(cuts);
+  }, [cuts, setSkipRegions]);
+
   useEffect(() => {
     onLoadingChange?.(isLoading);
   }, [isLoading, onLoadingChange]);
@@ -105,15 +311,59 @@ export function NoteAudio({
   };
 
   const handleToggleRecording = () => {
-    if (!recordingBlob && !isRecording) {
+    if (isStopped && recordingBlob) {
+      // Recording again after stop adds a take to the same note
+      startRecording({ append: true });
+    } else if (!recordingBlob && !isRecording && status !== 'paused') {
       startRecording();
-    } else if (isRecording) {
-      togglePauseResume();
     } else {
       togglePauseResume();
     }
   };
 
+  // Re-record from the playhead, replacing the rest or inserting there
+  const handlePunchIn = (mode: PunchInMode) => {
+    pause();
+    startRecording({ punchIn: { at: currentTime, mode } });
+  };
+
+  const canImport =
+    !disabled && !isProcessing && status !== 'recording' && status !== 'paused';
+
+  const handleImport = (file: File | undefined) => {
+    if (!file || !canImport) return;
+    pause();
+    importAudio(file);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canImport || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    handleImport(e.dataTransfer.files[0]);
+  };
+
+  const handleCutLoop = (keepLoop: boolean) => {
+    if (!loop) return;
+    if (keepLoop) {
+      keep(loop);
+    } else {
+      cut(loop);
+    }
+    setLoop(null);
+  };
+
+  const handleApplyEdits = () => {
+    pause();
+    applyEdits(cuts);
+  };
+
   const togglePlayPause = () => {
     if (isPlaying) {
       pause();
@@ -125,10 +375,38 @@ export function NoteAudio({
   return (
     <div
       className={cn(
-        'flex max-w-full flex-col items-center gap-4 p-4',
+        'flex max-w-full flex-col items-center gap-4 rounded-md p-4',
+        isDraggingFile &&
+          'bg-indigo-50 outline-dashed outline-2 outline-primary',
         className
       )}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDraggingFile(false)}
+      onDrop={handleDrop}
     >
+      {status === 'idle' &&
+        recoverableSessions.map((session) => (
+          <div
+            key={session.id}
+            className='flex max-w-full flex-wrap items-center gap-2 rounded-md bg-yellow-100 px-3 py-2 text-sm'
+          >
+            <span>
+              Grabación sin terminar del{' '}
+              {new Date(session.startedAt).toLocaleString()} (
+              {(session.size / (1024 * 1024)).toFixed(1)} MB)
+            </span>
+            <Button size='sm' onClick={() => recoverSession(session.id)}>
+              Recuperar
+            </Button>
+            <Button
+              size='sm'
+              variant='outline'
+              onClick={() => discardSession(session.id)}
+            >
+              Descartar
+            </Button>
+          </div>
+        ))}
       <div
         className={cn(
           'flex items-center gap-2 rounded-md px-2 py-1',
@@ -137,12 +415,122 @@ export function NoteAudio({
       >
         <div className='h-3 w-3 rounded-full bg-primary' />
         {isRecording ? 'Grabando' : 'En espera'}
+        <span className='tabular-nums'>
+          {formatRecordingTime(recordingTimeMs)}
+        </span>
+        {(status === 'recording' || status === 'paused') && (
+          <span
+            className={cn(
+              'h-2 w-2 rounded-full',
+              isSpeaking ? 'bg-green-500' : 'bg-gray-300'
+            )}
+            title={isSpeaking ? 'Voz detectada' : 'Silencio'}
+          />
+        )}
         {JSON.stringify({
           recorderStatus: mediaRecorder?.state,
           blobUrl: audioUrl,
         })}
         Mic:{currentDeviceLabel}
       </div>
+      {recorderError && (
+        <div
+          role='alert'
+          className='max-w-md rounded-md bg-red-100 px-3 py-2 text-sm text-red-800'
+        >
+          {RECORDER_ERROR_MESSAGES[recorderError.code]}
+        </div>
+      )}
+      {playerError && (
+        <div
+          role='alert'
+          className='max-w-md rounded-md bg-red-100 px-3 py-2 text-sm text-red-800'
+        >
+          {PLAYER_ERROR_MESSAGES[playerError.code]}
+        </div>
+      )}
+      {isLoading && (
+        <div className='rounded-md bg-indigo-100 px-3 py-1 text-sm'>
+          Cargando audio… {Math.round(loadProgress * 100)}%
+        </div>
+      )}
+      {isProcessing && (
+        <div className='rounded-md bg-indigo-100 px-3 py-1 text-sm'>
+          Procesando grabación…
+        </div>
+      )}
+      {(status === 'recording' || status === 'paused') && (
+        <NoteAudioLevelMeter
+          level={inputLevel}
+          isClipping={inputWarnings.includes('clipping')}
+        />
+      )}
+      {inputWarnings.map((warning) => (
+        <div
+          key={warning}
+          role='alert'
+          className='max-w-md rounded-md bg-yellow-100 px-3 py-1 text-sm'
+        >
+          {INPUT_WARNING_MESSAGES[warning]}
+        </div>
+      ))}
+      {interruption && (
+        <div
+          role='alert'
+          className='flex max-w-md flex-wrap items-center gap-2 rounded-md bg-yellow-100 px-3 py-2 text-sm'
+        >
+          <span>
+            Grabación en pausa. {INTERRUPTION_MESSAGES[interruption.cause]}
+          </span>
+          <Button size='sm' onClick={resumeAfterInterruption}>
+            Reanudar
+          </Button>
+        </div>
+      )}
+      {autoPaused && (
+        <div className='rounded-md bg-yellow-100 px-3 py-1 text-sm'>
+          En pausa por silencio: la grabación seguirá al volver a hablar.
+        </div>
+      )}
+      {limitWarning && (
+        <div className='rounded-md bg-yellow-100 px-3 py-1 text-sm'>
+          {limitWarning.limit === 'duration'
+            ? `Quedan ${limitWarning.remainingSeconds} s de grabación`
+            : `Quedan unos ${limitWarning.remainingSeconds} s hasta el tamaño máximo`}
+        </div>
+      )}
+      {UPLOAD_STATUS_MESSAGES[uploadStatus] && (
+        <div className='flex items-center gap-2 rounded-md bg-indigo-100 px-3 py-1 text-sm'>
+          {UPLOAD_STATUS_MESSAGES[uploadStatus]}
+          {uploadStatus === 'error' && (
+            <Button size='sm' variant='outline' onClick={retryUpload}>
+              Reintentar
+            </Button>
+          )}
+        </div>
+      )}
+      {stopReason && STOP_REASON_MESSAGES[stopReason] && (
+        <div className='rounded-md bg-yellow-100 px-3 py-1 text-sm'>
+          {STOP_REASON_MESSAGES[stopReason]}
+        </div>
+      )}
+      {devices.length > 1 && (
+        <select
+          className='max-w-full rounded-md border px-2 py-1 text-sm'
+          value={selectedDeviceId ?? ''}
+          onChange={(e) => selectDevice(e.target.value)}
+          disabled={disabled}
+        >
+          <option value='' disabled>
+            Micrófono por defecto
+          </option>
+          {devices.map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `Micrófono ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      )}
       <div
         className={cn('relative h-24 w-48 max-w-full rounded-md bg-indigo-100')}
       >
@@ -155,21 +543,76 @@ export function NoteAudio({
           mediaRecorder={mediaRecorder}
         />
         {displayedBlob && (
-          <AudioVisualizer
-            barPlayedColor='hsl(230 100% 62%)'
+          <NoteAudioWaveform
+            className={cn('absolute inset-0 transition-opacity duration-1000', {
+              'pointer-events-none opacity-0': isRecording,
+            })}
+            peaks={peaks}
+            duration={duration}
             currentTime={currentTime}
-            blob={displayedBlob}
-            width={640}
-            height={240}
-            style={{
-              width: '100%',
-              height: '100%',
-              opacity: !displayedBlob || isRecording ? 0 : 1,
-              transition: 'opacity 1s ease-in-out',
+            view={waveformView}
+            loop={loop}
+            cuts={cuts}
+            mode={waveformMode}
+            onSeek={seek}
+            onSelect={(region) => {
+              setLoop(region);
+              setWaveformMode('seek');
             }}
           />
         )}
+        {displayedBlob && !isRecording && (
+          <NoteAudioMarkers
+            markers={markers}
+            duration={duration}
+            view={waveformView}
+            onSeek={seek}
+          />
+        )}
       </div>
+      {displayedBlob && !isRecording && duration > 0 && (
+        <div className='flex items-center gap-2'>
+          <Button
+            size='sm'
+            variant='outline'
+            onClick={() => setWaveformZoom((zoom) => Math.max(1, zoom / 2))}
+            disabled={waveformZoom <= 1}
+            title='Alejar'
+          >
+            <ZoomOut size={16} />
+          </Button>
+          <Button
+            size='sm'
+            variant='outline'
+            onClick={() =>
+              setWaveformZoom((zoom) => Math.min(MAX_WAVEFORM_ZOOM, zoom * 2))
+            }
+            disabled={waveformZoom >= MAX_WAVEFORM_ZOOM}
+            title='Acercar'
+          >
+            <ZoomIn size={16} />
+          </Button>
+          <Button
+            size='sm'
+            variant={waveformMode === 'select' ? 'default' : 'outline'}
+            onClick={() =>
+              setWaveformMode((mode) => (mode === 'select' ? 'seek' : 'select'))
+            }
+            title='Arrastra sobre la onda para repetir un fragmento'
+          >
+            <Repeat size={16} />
+          </Button>
+        </div>
+      )}
+      {loop && (
+        <div className='flex items-center gap-2 rounded-md bg-indigo-100 px-3 py-1 text-sm'>
+          Repitiendo {formatRecordingTime(loop.start * 1000)} –{' '}
+          {formatRecordingTime(loop.end * 1000)}
+          <Button size='sm' variant='outline' onClick={() => setLoop(null)}>
+            Quitar bucle
+          </Button>
+        </div>
+      )}
       <div className='flex max-w-md items-center gap-4'>
         <Button
           className='flex h-10 w-10 items-center justify-center rounded-full bg-primary p-2 text-primary-foreground'
@@ -183,12 +626,81 @@ export function NoteAudio({
           )}
         </Button>
 
+        <select
+          className='rounded-md border px-2 py-1 text-sm'
+          value={playbackRate}
+          onChange={(e) => setPlaybackRate(Number(e.target.value))}
+          disabled={!isReady || disabled}
+          title='Velocidad de reproducción'
+        >
+          {PLAYBACK_RATES.map((rate) => (
+            <option key={rate} value={rate}>
+              {rate}x
+            </option>
+          ))}
+        </select>
+
+        <Button
+          className='flex h-10 w-10 items-center justify-center rounded-full bg-primary p-2 text-primary-foreground'
+          onClick={toggleMute}
+          title={isMuted ? 'Activar sonido' : 'Silenciar'}
+        >
+          {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
+        </Button>
+        <input
+          type='range'
+          className='w-20'
+          min={0}
+          max={1}
+          step={0.05}
+          value={isMuted ? 0 : volume}
+          onChange={(e) => setVolume(Number(e.target.value))}
+          title='Volumen'
+        />
+        <label className='flex items-center gap-1 text-sm'>
+          <input
+            type='checkbox'
+            checked={normalize}
+            onChange={(e) => setNormalization(e.target.checked)}
+          />
+          Normalizar
+        </label>
+
         <Button
           className='flex items-center justify-center rounded-full bg-primary p-2 text-primary-foreground'
           onClick={handleToggleRecording}
+          disabled={isProcessing || disabled}
+        >
+          {isRecording ? 'Pause' : isStopped ? 'Continuar' : 'Record'}
+        </Button>
+
+        {(status === 'recording' || status === 'paused') && (
+          <Button
+            className='flex items-center justify-center rounded-full bg-primary p-2 text-primary-foreground'
+            onClick={() => addMarker()}
+          >
+            Marcar
+          </Button>
+        )}
+
+        <Button
+          className='flex h-10 w-10 items-center justify-center rounded-full bg-primary p-2 text-primary-foreground'
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!canImport}
+          title='Importar archivo de audio'
         >
-          {isRecording ? 'Pause' : 'Record'}
+          <Upload size={20} />
         </Button>
+        <input
+          ref={fileInputRef}
+          type='file'
+          accept={acceptedAudioFormatsString()}
+          className='hidden'
+          onChange={(e) => {
+            handleImport(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
 
         <Button
           className='flex h-10 w-10 items-center justify-center rounded-full bg-primary p-2 text-primary-foreground'
@@ -200,10 +712,120 @@ export function NoteAudio({
       </div>
       <Button
         className='flex h-10 w-10 items-center justify-center rounded-full bg-primary p-2 text-primary-foreground'
-        onClick={stopRecording}
+        onClick={() => stopRecording()}
       >
         <SquareIcon size={20} />
       </Button>
+      {isStopped && (
+        <div className='flex flex-wrap items-center justify-center gap-2'>
+          <Button
+            size='sm'
+            variant='outline'
+            onClick={() => handlePunchIn('overwrite')}
+            disabled={!isReady || isProcessing || disabled}
+          >
+            Regrabar desde aquí
+          </Button>
+          <Button
+            size='sm'
+            variant='outline'
+            onClick={() => handlePunchIn('insert')}
+            disabled={!isReady || isProcessing || disabled}
+          >
+            Insertar aquí
+          </Button>
+          {canUndo && (
+            <Button
+              size='sm'
+              variant='outline'
+              onClick={undoEdit}
+              disabled={isProcessing || disabled}
+            >
+              Deshacer
+            </Button>
+          )}
+        </div>
+      )}
+      {isStopped && isReady && (
+        <div className='flex flex-wrap items-center justify-center gap-2'>
+          <Button
+            size='sm'
+            variant='outline'
+            onClick={() => trimStart(currentTime)}
+            disabled={isProcessing || disabled}
+            title='Quitar lo anterior a la posición actual'
+          >
+            Recortar inicio
+          </Button>
+          <Button
+            size='sm'
+            variant='outline'
+            onClick={() => trimEnd(currentTime)}
+            disabled={isProcessing || disabled}
+            title='Quitar lo posterior a la posición actual'
+          >
+            Recortar final
+          </Button>
+          {loop && (
+            <>
+              <Button
+                size='sm'
+                variant='outline'
+                onClick={() => handleCutLoop(false)}
+                disabled={isProcessing || disabled}
+              >
+                <Scissors size={16} /> Cortar fragmento
+              </Button>
+              <Button
+                size='sm'
+                variant='outline'
+                onClick={() => handleCutLoop(true)}
+                disabled={isProcessing || disabled}
+              >
+                Conservar solo el fragmento
+              </Button>
+            </>
+          )}
+          <Button
+            size='sm'
+            variant='outline'
+            onClick={undoCut}
+            disabled={!canUndoCut || isProcessing || disabled}
+            title='Deshacer corte'
+          >
+            <Undo2 size={16} />
+          </Button>
+          <Button
+            size='sm'
+            variant='outline'
+            onClick={redoCut}
+            disabled={!canRedoCut || isProcessing || disabled}
+            title='Rehacer corte'
+          >
+            <Redo2 size={16} />
+          </Button>
+        </div>
+      )}
+      {isStopped && hasEdits && (
+        <div className='flex items-center gap-2 rounded-md bg-indigo-100 px-3 py-1 text-sm'>
+          Duración tras los cortes: {formatRecordingTime(editedDuration * 1000)}
+          <Button
+            size='sm'
+            onClick={handleApplyEdits}
+            disabled={isProcessing || disabled}
+          >
+            Aplicar
+          </Button>
+          <Button
+            size='sm'
+            variant='outline'
+            onClick={clearEdits}
+            disabled={isProcessing || disabled}
+          >
+            Descartar cortes
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
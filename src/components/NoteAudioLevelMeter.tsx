@@ -0,0 +1,51 @@
+'use client';
+
+import type { InputLevel } from '../hooks/audioRecorder/AudioRecorder';
+import { cn } from '../lib/utils';
+
+interface NoteAudioLevelMeterProps {
+  level: InputLevel | null;
+  isClipping?: boolean;
+  className?: string;
+}
+
+// Levels below this show an empty bar, speech sits around -30 to -10
+const METER_MIN_DB = -60;
+
+const toPercent = (db: number) =>
+  Math.max(0, Math.min(100, ((db - METER_MIN_DB) / -METER_MIN_DB) * 100));
+
+export function NoteAudioLevelMeter({
+  level,
+  isClipping = false,
+  className,
+}: NoteAudioLevelMeterProps) {
+  const rms = toPercent(level?.rmsDb ?? METER_MIN_DB);
+  const peak = toPercent(level?.peakDb ?? METER_MIN_DB);
+
+  return (
+    <div
+      role='meter'
+      aria-label='Nivel de entrada'
+      aria-valuemin={METER_MIN_DB}
+      aria-valuemax={0}
+      aria-valuenow={level?.rmsDb ?? METER_MIN_DB}
+      className={cn(
+        'relative h-2 w-48 max-w-full overflow-hidden rounded-full bg-indigo-100',
+        className
+      )}
+    >
+      <div
+        className={cn(
+          'h-full transition-[width] duration-75',
+          isClipping ? 'bg-red-500' : 'bg-green-500'
+        )}
+        style={{ width: `${rms}%` }}
+      />
+      <div
+        className='absolute bottom-0 top-0 w-0.5 bg-gray-700'
+        style={{ left: `${peak}%` }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import type { PlaybackRegion } from '../hooks/audioPlayer/AudioPlayer';
+import type { RecordingMarker } from '../hooks/audioRecorder/AudioRecorder';
+import { cn } from '../lib/utils';
+
+interface NoteAudioMarkersProps {
+  markers: RecordingMarker[];
+  // Seconds, as reported by the player
+  duration: number;
+  // The part of the audio on screen when the waveform is zoomed in
+  view?: PlaybackRegion;
+  onSeek: (time: number) => void;
+  className?: string;
+}
+
+export function NoteAudioMarkers({
+  markers,
+  duration,
+  view = { start: 0, end: duration },
+  onSeek,
+  className,
+}: NoteAudioMarkersProps) {
+  if (!duration) return null;
+  const viewLength = view.end - view.start;
+
+  return (
+    <div className={cn('pointer-events-none absolute inset-0', className)}>
+      {markers.map((marker, index) => {
+        const time = Math.min(marker.timeMs / 1000, duration);
+        if (time < view.start || time > view.end) return null;
+        const label =
+          marker.label ??
+          (marker.interruption ? 'Interrupción' : `Marca ${index + 1}`);
+        const color = marker.interruption ? 'bg-red-500' : 'bg-orange-500';
+        return (
+          <button
+            key={marker.id}
+            type='button'
+            title={label}
+            aria-label={label}
+            onClick={() => onSeek(time)}
+            className='pointer-events-auto absolute bottom-0 top-0 w-3 -translate-x-1/2'
+            style={{ left: `${((time - view.start) / viewLength) * 100}%` }}
+          >
+            <span
+              className={cn(
+                'absolute bottom-0 left-1/2 top-0 w-0.5 -translate-x-1/2',
+                color
+              )}
+            />
+            <span
+              className={cn(
+                'absolute left-1/2 top-0 h-2 w-2 -translate-x-1/2 rounded-full',
+                color
+              )}
+            />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
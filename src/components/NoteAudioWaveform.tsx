@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+import type { PlaybackRegion } from '../hooks/audioPlayer/AudioPlayer';
+import { peakBetween, type WaveformPeaks } from '../lib/audio/peaks';
+import { cn } from '../lib/utils';
+
+export type WaveformMode = 'seek' | 'select';
+
+interface NoteAudioWaveformProps {
+  peaks: WaveformPeaks | null;
+  // Seconds, as reported by the player
+  duration: number;
+  currentTime: number;
+  // The part of the audio on screen, see useWaveformView
+  view: PlaybackRegion;
+  loop: PlaybackRegion | null;
+  // Parts left out of the edited recording, drawn dimmed
+  cuts?: PlaybackRegion[];
+  // Dragging scrubs in 'seek' mode and picks a region to loop in 'select'
+  mode?: WaveformMode;
+  onSeek: (time: number) => void;
+  onSelect?: (region: PlaybackRegion) => void;
+  className?: string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const BAR_WIDTH = 3;
+const BAR_GAP = 1;
+const PLAYED_COLOR = 'hsl(230 100% 62%)';
+const UNPLAYED_COLOR = 'rgb(160, 198, 255)';
+const REGION_COLOR = 'rgba(99, 102, 241, 0.25)';
+const CUT_COLOR = 'rgb(212, 212, 216)';
+// Shorter drags count as a click
+const CLICK_TOLERANCE_PX = 4;
+
+// Zoomed in, the view re-centres on the playhead whenever it leaves it
+export function useWaveformView(
+  duration: number,
+  currentTime: number,
+  zoom: number
+): PlaybackRegion {
+  const length = duration / Math.max(1, zoom);
+  const startRef = useRef(0);
+  const zoomRef = useRef(zoom);
+
+  const clamp = (start: number) =>
+    Math.max(0, Math.min(start, duration - length));
+  let start = clamp(startRef.current);
+  if (
+    zoomRef.current !== zoom ||
+    currentTime < start ||
+    currentTime > start + length
+  ) {
+    start = clamp(currentTime - length / 2);
+  }
+  startRef.current = start;
+  zoomRef.current = zoom;
+
+  return { start, end: start + length };
+}
+
+type Drag = { startX: number; start: number; end: number };
+
+export function NoteAudioWaveform({
+  peaks,
+  duration,
+  currentTime,
+  view,
+  loop,
+  cuts,
+  mode = 'seek',
+  onSeek,
+  onSelect,
+  className,
+}: NoteAudioWaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.clearRect(0, 0, WIDTH, HEIGHT);
+    const viewLength = view.end - view.start;
+    if (!duration || viewLength <= 0) return;
+
+    const xAt = (time: number) => ((time - view.start) / viewLength) * WIDTH;
+    const selection = drag
+      ? {
+          start: Math.min(drag.start, drag.end),
+          end: Math.max(drag.start, drag.end),
+        }
+      : loop;
+
+    if (selection) {
+      context.fillStyle = REGION_COLOR;
+      context.fillRect(
+        xAt(selection.start),
+        0,
+        xAt(selection.end) - xAt(selection.start),
+        HEIGHT
+      );
+    }
+
+    const barCount = Math.floor(WIDTH / (BAR_WIDTH + BAR_GAP));
+    const barDuration = viewLength / barCount;
+    for (let i = 0; i < barCount; i++) {
+      const time = view.start + i * barDuration;
+      // Until peaks arrive, and for streamed remote audio that never gets
+      // them, a flat line still shows progress and takes seeks
+      const peak = peaks ? peakBetween(peaks, time, time + barDuration) : 0;
+      const height = Math.max(2, peak * HEIGHT);
+      const isCut = cuts?.some(({ start, end }) => time >= start && time < end);
+      context.fillStyle = isCut
+        ? CUT_COLOR
+        : time < currentTime
+          ? PLAYED_COLOR
+          : UNPLAYED_COLOR;
+      context.fillRect(
+        i * (BAR_WIDTH + BAR_GAP),
+        (HEIGHT - height) / 2,
+        BAR_WIDTH,
+        height
+      );
+    }
+  }, [peaks, duration, currentTime, view.start, view.end, drag, loop, cuts]);
+
+  if (!duration) return null;
+
+  const timeAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(
+      1,
+      Math.max(0, (event.clientX - rect.left) / rect.width)
+    );
+    return view.start + fraction * (view.end - view.start);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drag) return;
+    setDrag(null);
+    if (mode === 'seek') return;
+    const end = timeAt(event);
+    if (Math.abs(event.clientX - drag.startX) < CLICK_TOLERANCE_PX) {
+      onSeek(drag.start);
+    } else {
+      onSelect?.({
+        start: Math.min(drag.start, end),
+        end: Math.max(drag.start, end),
+      });
+    }
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={WIDTH}
+      height={HEIGHT}
+      className={cn('touch-none', className)}
+      style={{ width: '100%', height: '100%' }}
+      onPointerDown={(event) => {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        const time = timeAt(event);
+        setDrag({ startX: event.clientX, start: time, end: time });
+        if (mode === 'seek') onSeek(time);
+      }}
+      onPointerMove={(event) => {
+        if (!drag) return;
+        const time = timeAt(event);
+        if (mode === 'seek') {
+          onSeek(time);
+        } else {
+          setDrag({ ...drag, end: time });
+        }
+      }}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDrag(null)}
+    />
+  );
+}
@@ -3,10 +3,11 @@
 import { LiveAudioVisualizer } from 'react-audio-visualize';
 
 import { cn } from '../lib/utils';
+import type { RecorderEngine } from '../hooks/audioRecorder/PcmRecorder';
 
 interface AudioVisualizerWithAxisProps {
   status: 'idle' | 'recording' | 'paused' | 'stopped';
-  mediaRecorder?: MediaRecorder | null;
+  mediaRecorder?: RecorderEngine | null;
   className?: string;
   fftSize?:
     | 1024
@@ -38,7 +39,8 @@ export function NoteLiveAudioVisualizer({
       <div className='absolute left-0 right-0 top-1/2 h-[1px] bg-muted-foreground' />
       {status === 'recording' && mediaRecorder && (
         <LiveAudioVisualizer
-          mediaRecorder={mediaRecorder}
+          // Only its stream is read, which the PCM engine has as well
+          mediaRecorder={mediaRecorder as MediaRecorder}
           width={256}
           height={96}
           barColor=''
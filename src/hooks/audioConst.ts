@@ -11,6 +11,7 @@
 //   'ogg',
 // ];
 
+// `recordable: false` types are never requested from MediaRecorder
 export const AUDIO_CONFIGS = {
   'audio/webm;codecs=opus': {
     extension: 'webm',
@@ -32,6 +33,21 @@ export const AUDIO_CONFIGS = {
     estimatedSizeMBPerMinute: 1.5,
     priority: 4,
   },
+  // The PCM engine, estimated for 16-bit mono at 16 kHz. Some browsers
+  // claim MediaRecorder support for it, the PCM engine writes it instead.
+  'audio/wav': {
+    extension: 'wav',
+    estimatedSizeMBPerMinute: 1.83,
+    priority: 5,
+    recordable: false,
+  },
+  // Only produced by exportAudio
+  'audio/flac': {
+    extension: 'flac',
+    estimatedSizeMBPerMinute: 3,
+    priority: 6,
+    recordable: false,
+  },
 } as const;
 
 // Type for MIME types
@@ -39,18 +55,36 @@ export type SupportedMimeType = keyof typeof AUDIO_CONFIGS;
 export type SupportedFormats =
   (typeof AUDIO_CONFIGS)[keyof typeof AUDIO_CONFIGS]['extension'];
 
-export function getBestSupportedMimeType(): SupportedMimeType {
+// Null when MediaRecorder is missing or supports none of our types, the
+// recorder then falls back to its PCM engine
+export function getBestSupportedMimeType(): SupportedMimeType | null {
+  if (typeof MediaRecorder === 'undefined') return null;
   return (
     (Object.keys(AUDIO_CONFIGS) as SupportedMimeType[])
+      .filter((type) => isRecordable(type))
       .sort((a, b) => AUDIO_CONFIGS[a].priority - AUDIO_CONFIGS[b].priority)
-      .find((type) => MediaRecorder.isTypeSupported(type)) ?? 'audio/mp4'
+      .find((type) => MediaRecorder.isTypeSupported(type)) ?? null
   );
 }
 
+function isRecordable(mimeType: SupportedMimeType) {
+  const config = AUDIO_CONFIGS[mimeType];
+  return !('recordable' in config) || config.recordable;
+}
+
+export function estimateBytesPerSecond(mimeType: string): number {
+  const config = isSupportedMimeType(mimeType)
+    ? AUDIO_CONFIGS[mimeType]
+    : AUDIO_CONFIGS['audio/mp4'];
+  return (config.estimatedSizeMBPerMinute * 1024 * 1024) / 60;
+}
+
 export function listSupportedFileExtensions(): SupportedFormats[] {
-  return Object.keys(AUDIO_CONFIGS).map(
+  const extensions = Object.keys(AUDIO_CONFIGS).map(
     (key) => AUDIO_CONFIGS[key as keyof typeof AUDIO_CONFIGS].extension
   );
+  // Both webm types share one extension
+  return extensions.filter((ext, i) => extensions.indexOf(ext) === i);
 }
 
 export function acceptedAudioFormatsString(): string {
@@ -72,17 +106,20 @@ export function getFileExtensionOrThrow(mimeType: string): SupportedFormats {
   return AUDIO_CONFIGS[mimeType].extension;
 }
 
+// Several types share the 'webm' extension; the one without codec
+// parameters is the canonical type for a file
 export const getMimeTypeFromExtension = (
   extension: string
 ): SupportedMimeType => {
-  const mimeType = Object.keys(AUDIO_CONFIGS).find(
-    (key) =>
-      AUDIO_CONFIGS[key as keyof typeof AUDIO_CONFIGS].extension === extension
+  const candidates = (Object.keys(AUDIO_CONFIGS) as SupportedMimeType[]).filter(
+    (key) => AUDIO_CONFIGS[key].extension === extension
   );
+  const mimeType =
+    candidates.find((key) => !key.includes(';')) ?? candidates[0];
   if (!mimeType) {
     throw new Error(`Formato no soportado: ${extension}`);
   }
-  return mimeType as SupportedMimeType;
+  return mimeType;
 };
 
 export function generateFileName(mimeType: SupportedMimeType): string {
@@ -0,0 +1,130 @@
+import {
+  getEditedDuration,
+  normalizeCuts,
+  type AudioRange,
+} from '@/lib/audio/editAudio';
+
+export interface AudioEditorState {
+  // Normalized, in seconds of the original recording
+  cuts: AudioRange[];
+  duration: number;
+  editedDuration: number;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export const INITIAL_EDITOR_STATE: AudioEditorState = Object.freeze({
+  cuts: [],
+  duration: 0,
+  editedDuration: 0,
+  canUndo: false,
+  canRedo: false,
+});
+
+const MAX_EDIT_HISTORY = 50;
+
+// AudioEditor.ts
+// Keeps the cut list of one recording with its undo and redo stacks. Nothing
+// is rendered here, the recording is only touched once the edit is applied.
+export class AudioEditor {
+  private state: AudioEditorState = INITIAL_EDITOR_STATE;
+  private subscribers = new Set<() => void>();
+  private past: AudioRange[][] = [];
+  private future: AudioRange[][] = [];
+
+  private notify() {
+    this.subscribers.forEach((cb) => {
+      cb();
+    });
+  }
+
+  private publish(cuts: AudioRange[], duration = this.state.duration) {
+    this.state = {
+      cuts,
+      duration,
+      editedDuration: getEditedDuration(cuts, duration),
+      canUndo: this.past.length > 0,
+      canRedo: this.future.length > 0,
+    };
+    this.notify();
+  }
+
+  getSnapshot(): AudioEditorState {
+    return this.state;
+  }
+
+  subscribe(callback: () => void) {
+    this.subscribers.add(callback);
+    return () => {
+      this.subscribers.delete(callback);
+    };
+  }
+
+  private commit(cuts: AudioRange[]) {
+    const next = normalizeCuts(cuts, this.state.duration);
+    if (JSON.stringify(next) === JSON.stringify(this.state.cuts)) return;
+
+    this.past = [...this.past, this.state.cuts].slice(-MAX_EDIT_HISTORY);
+    this.future = [];
+    this.publish(next);
+  }
+
+  // Starts over for a new recording, dropping the cuts and their history
+  reset(duration: number) {
+    this.past = [];
+    this.future = [];
+    this.publish([], duration);
+  }
+
+  cut(range: AudioRange) {
+    this.commit([...this.state.cuts, range]);
+  }
+
+  // Cuts everything outside the range
+  keep(range: AudioRange) {
+    const { duration } = this.state;
+    this.commit([
+      ...this.state.cuts,
+      { start: 0, end: range.start },
+      { start: range.end, end: duration },
+    ]);
+  }
+
+  trimStart(time: number) {
+    this.commit([...this.state.cuts, { start: 0, end: time }]);
+  }
+
+  trimEnd(time: number) {
+    this.commit([
+      ...this.state.cuts,
+      { start: time, end: this.state.duration },
+    ]);
+  }
+
+  // Restores the audio of a single cut
+  restore(index: number) {
+    this.commit(this.state.cuts.filter((_, i) => i !== index));
+  }
+
+  clear() {
+    this.commit([]);
+  }
+
+  undo() {
+    const previous = this.past[this.past.length - 1];
+    if (!previous) return;
+
+    this.past = this.past.slice(0, -1);
+    this.future = [this.state.cuts, ...this.future];
+    this.publish(previous);
+  }
+
+  redo() {
+    const next = this.future[0];
+    if (!next) return;
+
+    this.future = this.future.slice(1);
+    this.past = [...this.past, this.state.cuts];
+    this.publish(next);
+  }
+}
@@ -0,0 +1,37 @@
+'use client';
+
+// useAudioEditor.ts
+import { useCallback, useState, useSyncExternalStore } from 'react';
+
+import {
+  AudioEditor,
+  INITIAL_EDITOR_STATE,
+} from '@/hooks/audioEditor/AudioEditor';
+import type { AudioRange } from '@/lib/audio/editAudio';
+
+const getServerSnapshot = () => INITIAL_EDITOR_STATE;
+
+export const useAudioEditor = () => {
+  const [editor] = useState(() => new AudioEditor());
+
+  const subscribe = useCallback(
+    (callback: () => void) => editor.subscribe(callback),
+    [editor]
+  );
+  const getSnapshot = useCallback(() => editor.getSnapshot(), [editor]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  return {
+    ...state,
+    hasEdits: state.cuts.length > 0,
+    reset: useCallback((duration: number) => editor.reset(duration), [editor]),
+    cut: useCallback((range: AudioRange) => editor.cut(range), [editor]),
+    keep: useCallback((range: AudioRange) => editor.keep(range), [editor]),
+    trimStart: useCallback((time: number) => editor.trimStart(time), [editor]),
+    trimEnd: useCallback((time: number) => editor.trimEnd(time), [editor]),
+    restore: useCallback((index: number) => editor.restore(index), [editor]),
+    clear: useCallback(() => editor.clear(), [editor]),
+    undo: useCallback(() => editor.undo(), [editor]),
+    redo: useCallback(() => editor.redo(), [editor]),
+  };
+};
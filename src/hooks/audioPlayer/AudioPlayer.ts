@@ -1,10 +1,57 @@
+import { getAudioPeaks, type PeaksKey } from '@/lib/audio/audioPeaks';
+import { measureLoudness } from '@/lib/audio/measureLoudness';
+import type { WaveformPeaks } from '@/lib/audio/peaks';
+import { stretchAudioBuffer } from '@/lib/audio/stretchAudioBuffer';
+import { MAX_STRETCH_RATE, MIN_STRETCH_RATE } from '@/lib/audio/timeStretch';
+
+// Positions in seconds of the original audio
+export interface PlaybackRegion {
+  start: number;
+  end: number;
+}
+
 export interface AudioPlayerState {
   isPlaying: boolean;
   isReady: boolean;
   currentTime: number;
   duration: number;
+  playbackRate: number;
+  volume: number;
+  isMuted: boolean;
+  normalize: boolean;
+  // Integrated loudness of the loaded audio in LUFS, null until measured or
+  // when the audio is silent
+  loudness: number | null;
+  // Long audio plays from a media element instead of a decoded buffer
+  isStreaming: boolean;
+  loop: PlaybackRegion | null;
+  // Computed once per recording from the decoded audio, null while pending
+  // and for streamed audio
+  peaks: WaveformPeaks | null;
+  isLoading: boolean;
+  // Share of the download received, decoding follows it
+  loadProgress: number;
+  error: AudioPlayerError | null;
 }
 
+export const INITIAL_PLAYER_STATE: AudioPlayerState = Object.freeze({
+  isPlaying: false,
+  isReady: false,
+  currentTime: 0,
+  duration: 0,
+  playbackRate: 1,
+  volume: 1,
+  isMuted: false,
+  normalize: false,
+  loudness: null,
+  isStreaming: false,
+  loop: null,
+  peaks: null,
+  isLoading: false,
+  loadProgress: 0,
+  error: null,
+});
+
 interface AudioPlayerInternalState {
   id: string;
   isPlaying: boolean;
@@ -13,19 +60,108 @@ interface AudioPlayerInternalState {
   offset: number; //
   duration: number;
   startTime: number;
-  error: Error | null;
+  // The requested rate, it applies once its stretched copy is ready
+  playbackRate: number;
+  volume: number;
+  isMuted: boolean;
+  normalize: boolean;
+  loudness: number | null;
+  isStreaming: boolean;
+  loop: PlaybackRegion | null;
+  isLoading: boolean;
+  loadProgress: number;
+  error: AudioPlayerError | null;
+}
+
+// Playback chain: source -> normalization gain -> volume -> limiter
+interface PlaybackChain {
+  normalization: GainNode;
+  volume: GainNode;
+  limiter: DynamicsCompressorNode;
+}
+
+export interface AudioPlayerOptions {
+  // Supplies a context shared with other players instead of one per player.
+  // The player never suspends or closes it.
+  getContext?: () => AudioContext;
+  // Audio longer or larger than this streams from a media element instead
+  // of being decoded into memory. Streamed audio is not measured for
+  // loudness normalization.
+  streamingThresholdSeconds?: number;
+  streamingThresholdBytes?: number;
 }
 
+// Decoded PCM takes around 10 MB per minute at 48 kHz stereo
+const DEFAULT_STREAMING_THRESHOLD_SECONDS = 20 * 60;
+const DEFAULT_STREAMING_THRESHOLD_BYTES = 50 * 1024 * 1024;
+// Smaller files cannot last long enough to be worth probing
+const STREAMING_PROBE_MIN_BYTES = 1024 * 1024;
+
+// Speech is normalized to the level podcasts and mobile platforms use
+const NORMALIZATION_TARGET_LUFS = -16;
+// Keeps near-silent recordings from turning into amplified noise
+const MAX_NORMALIZATION_GAIN_DB = 20;
+const GAIN_SMOOTHING_SECONDS = 0.02;
+const MIN_REGION_SECONDS = 0.05;
+
+export type AudioPlayerErrorCode =
+  'LOAD_ERROR' | 'DECODE_ERROR' | 'PLAYBACK_ERROR';
+
 export class AudioPlayerError extends Error {
   constructor(
     message: string,
-    public code: 'LOAD_ERROR' | 'PLAYBACK_ERROR'
+    public code: AudioPlayerErrorCode
   ) {
     super(message);
     this.name = 'AudioPlayerError';
   }
 }
 
+const releaseMediaElement = (element: HTMLAudioElement) => {
+  element.pause();
+  element.removeAttribute('src');
+  element.load();
+};
+
+// Resolves once the duration is known, only the metadata is fetched
+const loadMediaElement = (url: string, signal: AbortSignal) =>
+  new Promise<HTMLAudioElement>((resolve, reject) => {
+    const element = new Audio();
+    element.crossOrigin = 'anonymous';
+    element.preload = 'metadata';
+
+    const cleanup = () => {
+      element.onloadedmetadata = null;
+      element.onerror = null;
+      signal.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      cleanup();
+      releaseMediaElement(element);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+
+    element.onloadedmetadata = () => {
+      cleanup();
+      resolve(element);
+    };
+    element.onerror = () => {
+      cleanup();
+      const code = element.error?.code;
+      reject(
+        new AudioPlayerError(
+          element.error?.message || 'The media element could not load',
+          code === MediaError.MEDIA_ERR_DECODE ||
+            code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED
+            ? 'DECODE_ERROR'
+            : 'LOAD_ERROR'
+        )
+      );
+    };
+    element.src = url;
+  });
+
 // AudioPlayer.ts
 export class AudioPlayer {
   private static instanceCounter = 0;
@@ -37,31 +173,214 @@ export class AudioPlayer {
     offset: 0,
     duration: 0,
     startTime: 0,
+    playbackRate: 1,
+    volume: 1,
+    isMuted: false,
+    normalize: false,
+    loudness: null,
+    isStreaming: false,
+    loop: null,
+    isLoading: false,
+    loadProgress: 0,
     error: null,
   };
 
   private audio = {
     context: null as AudioContext | null,
+    chain: null as PlaybackChain | null,
     source: null as AudioBufferSourceNode | null,
     buffer: null as AudioBuffer | null,
+    // Time-stretched copy of the buffer, for the rate it was rendered at
+    stretched: null as { rate: number; buffer: AudioBuffer } | null,
+    // Set instead of the buffer in streaming mode
+    media: null as {
+      element: HTMLAudioElement;
+      node: MediaElementAudioSourceNode;
+      // Set when streaming from bytes already downloaded
+      objectUrl: string | null;
+    } | null,
+    // Kept out of the state, which is compared as JSON
+    peaks: null as WaveformPeaks | null,
   };
 
+  // Rate of the buffer being played. Positions in it are positions in the
+  // original scaled down by this rate; offsets and currentTime always refer
+  // to the original.
+  private sourceRate = 1;
+  private stretchController: AbortController | null = null;
+  private loudnessController: AbortController | null = null;
+  private peaksController: AbortController | null = null;
+  private loadController: AbortController | null = null;
+  // Set by playRegion: playback stops at its end and returns to its start
+  private region: PlaybackRegion | null = null;
+  // Ranges playback jumps over, sorted and apart. Loops ignore them.
+  private skipRegions: PlaybackRegion[] = [];
+  // The skip the running source stops at, to continue after it
+  private pendingSkip: PlaybackRegion | null = null;
+
+  constructor(private options: AudioPlayerOptions = {}) {}
+
   private subscribers = new Set<() => void>();
   private lastSnapshot: AudioPlayerState | null = null;
-  private stableSnapshot: AudioPlayerState = {
-    isPlaying: false,
-    isReady: false,
-    currentTime: 0,
-    duration: 0,
-  };
+  private stableSnapshot: AudioPlayerState = INITIAL_PLAYER_STATE;
   private timeUpdateId: number | null = null;
 
   private getCurrentTime(): number {
+    if (this.audio.media) return this.audio.media.element.currentTime;
     if (!this.state.isPlaying) return this.state.offset;
     if (!this.audio.context) return 0;
-    return (
-      this.audio.context.currentTime - this.state.startTime + this.state.offset
+    const elapsed =
+      (this.audio.context.currentTime - this.state.startTime) * this.sourceRate;
+    let position = this.state.offset + elapsed;
+    // The source jumps back to the loop start each time it reaches the end
+    const { loop } = this.state;
+    if (loop && position >= loop.end) {
+      position = loop.start + ((position - loop.end) % (loop.end - loop.start));
+    }
+    return Math.min(position, this.audio.buffer?.duration ?? Infinity);
+  }
+
+  private getDuration() {
+    const { buffer, media } = this.audio;
+    if (media) {
+      return Number.isFinite(media.element.duration)
+        ? media.element.duration
+        : 0;
+    }
+    return buffer?.duration || 0;
+  }
+
+  private hasAudio() {
+    return Boolean(this.audio.buffer || this.audio.media);
+  }
+
+  private getSourceBuffer() {
+    const { buffer, stretched } = this.audio;
+    if (this.sourceRate !== 1 && stretched?.rate === this.sourceRate) {
+      return stretched.buffer;
+    }
+    return buffer;
+  }
+
+  private get ownsContext() {
+    return !this.options.getContext;
+  }
+
+  private acquireContext() {
+    const context = this.options.getContext?.() ?? new window.AudioContext();
+    this.audio.context = context;
+    this.audio.chain = this.createChain(context);
+    return context;
+  }
+
+  private async releaseContext() {
+    const { context, chain } = this.audio;
+    this.audio.context = null;
+    this.audio.chain = null;
+    if (!context) return;
+    if (this.ownsContext) {
+      await context.close();
+    } else {
+      chain?.limiter.disconnect();
+    }
+  }
+
+  private stopSource() {
+    if (!this.audio.source) return;
+    this.audio.source.onended = null;
+    this.audio.source.stop();
+    this.audio.source = null;
+  }
+
+  private createChain(context: AudioContext): PlaybackChain {
+    const normalization = context.createGain();
+    const volume = context.createGain();
+    // Fast, hard compression just below full scale stops boosted peaks
+    // from clipping
+    const limiter = context.createDynamicsCompressor();
+    limiter.threshold.value = -1;
+    limiter.knee.value = 0;
+    limiter.ratio.value = 20;
+    limiter.attack.value = 0.001;
+    limiter.release.value = 0.1;
+
+    normalization.connect(volume);
+    volume.connect(limiter);
+    limiter.connect(context.destination);
+    return { normalization, volume, limiter };
+  }
+
+  private getNormalizationGain() {
+    const { normalize, loudness } = this.state;
+    if (!normalize || loudness === null) return 1;
+    const gainDb = Math.min(
+      NORMALIZATION_TARGET_LUFS - loudness,
+      MAX_NORMALIZATION_GAIN_DB
     );
+    return 10 ** (gainDb / 20);
+  }
+
+  private applyGains() {
+    const { context, chain } = this.audio;
+    if (!context || !chain) return;
+
+    const volume = this.state.isMuted ? 0 : this.state.volume;
+    chain.volume.gain.setTargetAtTime(
+      volume,
+      context.currentTime,
+      GAIN_SMOOTHING_SECONDS
+    );
+    chain.normalization.gain.setTargetAtTime(
+      this.getNormalizationGain(),
+      context.currentTime,
+      GAIN_SMOOTHING_SECONDS
+    );
+  }
+
+  // Measured for every load so normalization can be switched on instantly
+  private async measureBuffer(buffer: AudioBuffer) {
+    this.loudnessController?.abort();
+    const controller = new AbortController();
+    this.loudnessController = controller;
+    try {
+      const lufs = await measureLoudness(buffer, controller.signal);
+      if (controller.signal.aborted) return;
+      console.log('🔊 Loudness measured:', { lufs });
+      this.transition({ loudness: Number.isFinite(lufs) ? lufs : null });
+      this.applyGains();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.warn('⚠️ Could not measure loudness:', error);
+    } finally {
+      if (this.loudnessController === controller) {
+        this.loudnessController = null;
+      }
+    }
+  }
+
+  private async loadPeaks(key: PeaksKey, source: AudioBuffer | Blob) {
+    this.peaksController?.abort();
+    const controller = new AbortController();
+    this.peaksController = controller;
+    try {
+      const peaks = await getAudioPeaks(key, source, controller.signal);
+      if (controller.signal.aborted) return;
+      this.audio.peaks = peaks;
+      this.notify();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.warn('⚠️ Could not compute waveform peaks:', error);
+    } finally {
+      if (this.peaksController === controller) {
+        this.peaksController = null;
+      }
+    }
+  }
+
+  private discardPeaks() {
+    this.peaksController?.abort();
+    this.peaksController = null;
+    this.audio.peaks = null;
   }
 
   // Setup source node
@@ -69,15 +388,27 @@ export class AudioPlayer {
     if (!this.audio.context || !this.audio.buffer) return null;
 
     const source = this.audio.context.createBufferSource();
-    source.buffer = this.audio.buffer;
-    source.connect(this.audio.context.destination);
+    source.buffer = this.getSourceBuffer();
+    source.connect(
+      this.audio.chain?.normalization ?? this.audio.context.destination
+    );
 
     // Handle end of playback
     source.onended = () => {
       const currentTime = this.getCurrentTime();
+      const skip = this.pendingSkip;
+      if (skip && currentTime >= skip.start - 0.1) {
+        this.state.offset = skip.end;
+        this.audio.source = null;
+        this.startPlayback();
+        return;
+      }
+      const end = this.region?.end ?? this.audio.buffer!.duration;
       // If not at end of playback, do nothing
-      if (!(currentTime >= this.audio.buffer!.duration - 0.1)) return;
-      this.state.offset = 0;
+      if (!(currentTime >= end - 0.1)) return;
+      // A region goes back to its start, ready to be played again
+      this.state.offset = this.region?.start ?? 0;
+      this.region = null;
       this.state.isPlaying = false;
       this.audio.source = null;
       this.stopTimeUpdates();
@@ -87,13 +418,92 @@ export class AudioPlayer {
     return source;
   }
 
-  private handleError(error: unknown, code: 'LOAD_ERROR' | 'PLAYBACK_ERROR') {
-    const audioError = new AudioPlayerError(
+  // Starts at the offset, moved into the loop if there is one or past a
+  // skipped range, and stops at the end of a region or the next skip
+  private startSource(source: AudioBufferSourceNode) {
+    const { loop } = this.state;
+    const rate = this.sourceRate;
+    this.pendingSkip = null;
+    if (loop) {
+      source.loop = true;
+      source.loopStart = loop.start / rate;
+      source.loopEnd = loop.end / rate;
+      if (this.state.offset < loop.start || this.state.offset >= loop.end) {
+        this.state.offset = loop.start;
+      }
+    } else {
+      this.pendingSkip = this.skipFromOffset();
+    }
+
+    const { offset } = this.state;
+    const regionEnd = this.region?.end ?? Infinity;
+    if (this.pendingSkip && this.pendingSkip.start >= regionEnd) {
+      this.pendingSkip = null;
+    }
+    const end = Math.min(regionEnd, this.pendingSkip?.start ?? Infinity);
+    if (Number.isFinite(end)) {
+      source.start(0, offset / rate, Math.max(0, end - offset) / rate);
+    } else {
+      source.start(0, offset / rate);
+    }
+  }
+
+  // Moves the offset out of a skipped range and returns the next one ahead
+  private skipFromOffset() {
+    for (const skip of this.skipRegions) {
+      if (this.state.offset >= skip.end) continue;
+      if (this.state.offset < skip.start) return skip;
+      this.state.offset = skip.end;
+    }
+    return null;
+  }
+
+  private clampRegion({ start, end }: PlaybackRegion): PlaybackRegion | null {
+    const duration = this.getDuration();
+    const from = Math.max(0, Math.min(start, end, duration));
+    const to = Math.min(Math.max(start, end), duration);
+    return to - from >= MIN_REGION_SECONDS ? { start: from, end: to } : null;
+  }
+
+  // The media element has no loop points, so the bounds are checked on
+  // every frame
+  private enforceMediaBounds() {
+    const element = this.audio.media?.element;
+    if (!element) return;
+
+    const { loop } = this.state;
+    if (loop && element.currentTime >= loop.end) {
+      element.currentTime = loop.start;
+    }
+    if (!loop) {
+      const skip = this.skipRegions.find(
+        ({ start, end }) =>
+          element.currentTime >= start && element.currentTime < end
+      );
+      if (skip) element.currentTime = skip.end;
+    }
+    if (this.region && element.currentTime >= this.region.end) {
+      const { start } = this.region;
+      this.region = null;
+      element.pause();
+      element.currentTime = start;
+      this.stopTimeUpdates();
+      this.transition({ isPlaying: false, offset: start });
+    }
+  }
+
+  private toPlayerError(error: unknown, code: AudioPlayerErrorCode) {
+    if (error instanceof AudioPlayerError) return error;
+    return new AudioPlayerError(
       error instanceof Error ? error.message : 'Unknown error',
       code
     );
+  }
+
+  private handleError(error: unknown, code: AudioPlayerErrorCode) {
+    const audioError = this.toPlayerError(error, code);
     console.error(audioError);
-    this.transition({ isReady: false });
+    this.transition({ isReady: false, error: audioError });
     throw audioError;
   }
 
@@ -103,7 +513,7 @@ export class AudioPlayer {
     this.audio.source = this.setupSource();
     if (!this.audio.source) return;
 
-    this.audio.source.start(0, this.state.offset);
+    this.startSource(this.audio.source);
     this.transition({
       isPlaying: true,
       startTime: this.audio.context.currentTime,
@@ -120,7 +530,11 @@ export class AudioPlayer {
     const prevState = { ...this.state };
     this.state = { ...this.state, ...updates };
 
-    if (JSON.stringify(prevState) !== JSON.stringify(this.state)) {
+    // Errors stringify to their name and code, so compare them by identity
+    if (
+      prevState.error !== this.state.error ||
+      JSON.stringify(prevState) !== JSON.stringify(this.state)
+    ) {
       return this.notify();
     }
   }
@@ -128,13 +542,7 @@ export class AudioPlayer {
   private updateCurrentTime() {
     if (!this.audio.context) return;
 
-    const currentTime = this.state.isPlaying
-      ? this.audio.context.currentTime -
-        this.state.startTime +
-        this.state.offset
-      : this.state.offset;
-
-    this.transition({ currentTime });
+    this.transition({ currentTime: this.getCurrentTime() });
   }
 
   private setupTimeUpdates() {
@@ -142,6 +550,7 @@ export class AudioPlayer {
 
     const updateTime = () => {
       if (this.state.isPlaying) {
+        this.enforceMediaBounds();
         this.updateCurrentTime();
         this.timeUpdateId = requestAnimationFrame(updateTime);
       }
@@ -164,10 +573,28 @@ export class AudioPlayer {
       isPlaying: this.state.isPlaying,
       isReady: this.state.isReady,
       currentTime: this.getCurrentTime(),
-      duration: this.audio.buffer?.duration || 0,
+      duration: this.getDuration(),
+      playbackRate: this.state.playbackRate,
+      volume: this.state.volume,
+      isMuted: this.state.isMuted,
+      normalize: this.state.normalize,
+      loudness: this.state.loudness,
+      isStreaming: this.state.isStreaming,
+      loop: this.state.loop,
+      peaks: this.audio.peaks,
+      isLoading: this.state.isLoading,
+      loadProgress: this.state.loadProgress,
+      error: this.state.error,
     };
 
-    if (JSON.stringify(this.stableSnapshot) !== JSON.stringify(newSnapshot)) {
+    // Peaks and errors are compared by identity, the rest as JSON
+    const serialize = (snapshot: AudioPlayerState) =>
+      JSON.stringify({ ...snapshot, peaks: undefined, error: undefined });
+    if (
+      this.stableSnapshot.error !== newSnapshot.error ||
+      this.stableSnapshot.peaks !== newSnapshot.peaks ||
+      serialize(this.stableSnapshot) !== serialize(newSnapshot)
+    ) {
       this.stableSnapshot = newSnapshot;
     }
 
@@ -183,52 +610,288 @@ export class AudioPlayer {
     };
   }
 
-  async loadAudio(url: string) {
+  // Streams when the size or, for files big enough to matter, the duration
+  // is above the thresholds. The probe reads the downloaded bytes instead of
+  // fetching the URL again, and its element keeps playing from them.
+  private async probeStreaming(
+    bytes: ArrayBuffer,
+    type: string,
+    signal: AbortSignal
+  ): Promise<{
+    element: HTMLAudioElement;
+    objectUrl: string;
+    blob: Blob;
+  } | null> {
+    const {
+      streamingThresholdSeconds = DEFAULT_STREAMING_THRESHOLD_SECONDS,
+      streamingThresholdBytes = DEFAULT_STREAMING_THRESHOLD_BYTES,
+    } = this.options;
+    if (bytes.byteLength <= STREAMING_PROBE_MIN_BYTES) return null;
+
+    const blob = new Blob([bytes], { type });
+    const objectUrl = URL.createObjectURL(blob);
+    // If the element cannot read the file, decoding gets to decide
+    const element = await loadMediaElement(objectUrl, signal).catch(() => null);
+    // MediaRecorder WebM without a duration reports Infinity
+    const duration = element?.duration ?? NaN;
+    if (
+      element &&
+      !signal.aborted &&
+      (bytes.byteLength > streamingThresholdBytes ||
+        (Number.isFinite(duration) && duration > streamingThresholdSeconds))
+    ) {
+      return { element, objectUrl, blob };
+    }
+    if (element) releaseMediaElement(element);
+    URL.revokeObjectURL(objectUrl);
+    signal.throwIfAborted();
+    return null;
+  }
+
+  private streamMedia(
+    context: AudioContext,
+    element: HTMLAudioElement,
+    objectUrl: string | null,
+    size: number,
+    signal: AbortSignal
+  ) {
+    if (signal.aborted) {
+      releaseMediaElement(element);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      signal.throwIfAborted();
+    }
+    this.attachMedia(context, element, objectUrl);
+    this.transition({
+      isReady: true,
+      isLoading: false,
+      loadProgress: 1,
+      isStreaming: true,
+    });
+    this.applyGains();
+    console.log('📡 Streaming audio:', {
+      size,
+      duration: element.duration,
+    });
+  }
+
+  private attachMedia(
+    context: AudioContext,
+    element: HTMLAudioElement,
+    objectUrl: string | null
+  ) {
+    const node = context.createMediaElementSource(element);
+    node.connect(this.audio.chain?.normalization ?? context.destination);
+    element.preload = 'auto';
+    element.playbackRate = this.state.playbackRate;
+    element.onended = () => {
+      element.currentTime = 0;
+      this.state.offset = 0;
+      this.state.isPlaying = false;
+      this.stopTimeUpdates();
+      this.notify();
+    };
+    this.audio.media = { element, node, objectUrl };
+  }
+
+  private discardMedia() {
+    const { media } = this.audio;
+    if (!media) return;
+    media.element.onended = null;
+    releaseMediaElement(media.element);
+    media.node.disconnect();
+    if (media.objectUrl) URL.revokeObjectURL(media.objectUrl);
+    this.audio.media = null;
+  }
+
+  // Reads the body in chunks to report progress when the size is known
+  private async readAudio(response: Response, total: number) {
+    if (!response.body || !total) return response.arrayBuffer();
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      received += value.length;
+      // Whole percents, and a compressed body can outgrow its length
+      this.transition({
+        loadProgress: Math.min(1, Math.floor((received / total) * 100) / 100),
+      });
+    }
+
+    const bytes = new Uint8Array(received);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return bytes.buffer;
+  }
+
+  // Starting a load cancels the one in progress, so the latest always wins.
+  // The signal or cancelLoad stop it as well. `recording` is the Blob behind
+  // a blob URL: its peaks are computed once, whatever URL it comes under.
+  async loadAudio(url: string, signal?: AbortSignal, recording?: Blob) {
+    this.loadController?.abort();
+    const controller = new AbortController();
+    this.loadController = controller;
+    const forwardAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
     try {
-      if (!this.audio.context) {
-        this.audio.context = new window.AudioContext();
-      } else {
-        await this.audio.context.suspend();
+      controller.signal.throwIfAborted();
+      if (this.state.isPlaying) {
+        this.stopSource();
+        this.stopTimeUpdates();
+        this.transition({ isPlaying: false });
+      }
+      // A shared context its coordinator has closed since can't be reused
+      if (this.audio.context?.state === 'closed') this.audio.context = null;
+      const context = this.audio.context ?? this.acquireContext();
+      this.discardStretched();
+      this.discardMedia();
+      this.discardPeaks();
+      this.loudnessController?.abort();
+      this.audio.buffer = null;
+      this.region = null;
+      this.transition({
+        isReady: false,
+        isLoading: true,
+        loadProgress: 0,
+        error: null,
+        offset: 0,
+        loudness: null,
+        isStreaming: false,
+        loop: null,
+      });
+
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) {
+        throw new AudioPlayerError(
+          `Request failed with status ${response.status}`,
+          'LOAD_ERROR'
+        );
+      }
+      const size = Number(response.headers.get('Content-Length')) || 0;
+
+      // Audio known to be too large is not downloaded, the element streams
+      // it from the URL
+      const { streamingThresholdBytes = DEFAULT_STREAMING_THRESHOLD_BYTES } =
+        this.options;
+      if (size > streamingThresholdBytes) {
+        response.body?.cancel();
+        const element = await loadMediaElement(url, controller.signal);
+        this.streamMedia(context, element, null, size, controller.signal);
+        // Remote audio would have to be downloaded a second time
+        if (recording) this.loadPeaks(recording, recording);
+        return;
       }
 
-      // set cors to allow cross origin
-      const response = await fetch(url);
-      const arrayBuffer = await response.arrayBuffer();
-      this.audio.buffer = await this.audio.context.decodeAudioData(arrayBuffer);
-      this.transition({ offset: 0, isReady: true });
+      const arrayBuffer = await this.readAudio(response, size);
+      controller.signal.throwIfAborted();
+      const probed = await this.probeStreaming(
+        arrayBuffer,
+        response.headers.get('Content-Type') ?? '',
+        controller.signal
+      );
+      if (probed) {
+        this.streamMedia(
+          context,
+          probed.element,
+          probed.objectUrl,
+          arrayBuffer.byteLength,
+          controller.signal
+        );
+        this.loadPeaks(recording ?? url, recording ?? probed.blob);
+        return;
+      }
+      let buffer: AudioBuffer;
+      try {
+        buffer = await context.decodeAudioData(arrayBuffer);
+      } catch (error) {
+        throw this.toPlayerError(error, 'DECODE_ERROR');
+      }
+      controller.signal.throwIfAborted();
+
+      this.audio.buffer = buffer;
+      this.transition({
+        offset: 0,
+        isReady: true,
+        isLoading: false,
+        loadProgress: 1,
+      });
+      this.applyGains();
       this.setupSource();
+      this.measureBuffer(buffer);
+      this.loadPeaks(recording ?? url, buffer);
+      // Keep the chosen speed for the new audio
+      if (this.state.playbackRate !== 1) {
+        this.prepareRate(this.state.playbackRate);
+      }
     } catch (error) {
-      console.error('Error loading audio:', error);
-      // Clean up properly
-      if (this.audio.context) {
-        await this.audio.context.close();
-        this.audio.context = null;
+      // A newer load owns the state now
+      if (this.loadController !== controller) return;
+      if (controller.signal.aborted) {
+        console.log('⏹️ Audio load cancelled');
+        this.transition({ isLoading: false, loadProgress: 0 });
+        return;
       }
+
+      const loadError = this.toPlayerError(error, 'LOAD_ERROR');
+      console.error('❌ Could not load audio:', loadError);
+      // Clean up properly
+      this.discardMedia();
+      await this.releaseContext();
       this.audio.buffer = null;
       this.transition({
         isReady: false,
-        error: error as Error,
+        isLoading: false,
+        error: loadError,
         isPlaying: false,
         offset: 0,
         currentTime: 0,
         duration: 0,
       });
+    } finally {
+      // The caller's signal may outlive this load
+      signal?.removeEventListener('abort', forwardAbort);
+      if (this.loadController === controller) this.loadController = null;
     }
   }
 
+  cancelLoad() {
+    this.loadController?.abort();
+  }
+
   async play() {
-    if (!this.audio.context || !this.audio.buffer || this.state.isPlaying)
-      return;
+    if (!this.audio.context || !this.hasAudio() || this.state.isPlaying) return;
 
     try {
       // Resume context before playing
       await this.audio.context.resume();
 
+      if (this.audio.media) {
+        const { element } = this.audio.media;
+        const { loop } = this.state;
+        if (
+          loop &&
+          (element.currentTime < loop.start || element.currentTime >= loop.end)
+        ) {
+          element.currentTime = loop.start;
+        }
+        await element.play();
+        this.setupTimeUpdates();
+        this.transition({ isPlaying: true });
+        return;
+      }
+
       this.audio.source = this.setupSource();
       if (!this.audio.source) return;
 
       const startTime = this.audio.context.currentTime;
-      this.audio.source.start(0, this.state.offset);
+      this.startSource(this.audio.source);
       this.setupTimeUpdates();
 
       this.transition({
@@ -243,39 +906,232 @@ export class AudioPlayer {
   async pause() {
     if (!this.audio.context || !this.state.isPlaying) return;
 
-    this.audio.source?.stop();
-    this.audio.source = null;
-
-    // Suspend context when pausing
-    await this.audio.context.suspend();
-
+    const offset = this.getCurrentTime();
+    this.stopSource();
+    this.audio.media?.element.pause();
     this.stopTimeUpdates();
     this.transition({
       isPlaying: false,
-      offset: this.getCurrentTime(),
+      offset,
       isReady: true,
     });
+
+    // Suspend an own context when pausing, a shared one keeps running for
+    // the other players
+    if (this.ownsContext) await this.audio.context.suspend();
   }
 
   seek(time: number) {
-    if (!this.audio.buffer) return;
+    if (!this.hasAudio()) return;
 
     const wasPlaying = this.state.isPlaying;
 
-    if (this.audio.source) {
-      this.audio.source.stop();
-      this.audio.source = null;
-    }
+    this.stopSource();
 
-    this.state.offset = Math.max(0, Math.min(time, this.audio.buffer.duration));
+    this.state.offset = Math.max(0, Math.min(time, this.getDuration()));
+    // Seeking takes over from a region, and out of a loop ends it
+    this.region = null;
+    const { loop } = this.state;
+    if (
+      loop &&
+      (this.state.offset < loop.start || this.state.offset > loop.end)
+    ) {
+      this.state.loop = null;
+    }
 
-    if (wasPlaying) {
+    if (this.audio.media) {
+      this.audio.media.element.currentTime = this.state.offset;
+      this.notify();
+    } else if (wasPlaying) {
       this.startPlayback();
     } else {
       this.notify();
     }
   }
 
+  // Loops between two positions until cleared with null. Playback outside
+  // the loop jumps to its start.
+  setLoop(region: PlaybackRegion | null) {
+    const loop = region && this.clampRegion(region);
+    const hadRegion = this.region !== null;
+    this.region = null;
+
+    const position = this.getCurrentTime();
+    const outside =
+      loop !== null && (position < loop.start || position >= loop.end);
+    const offset = outside ? loop.start : position;
+
+    if (this.audio.media) {
+      if (outside) this.audio.media.element.currentTime = offset;
+      this.transition({ loop, offset });
+      return;
+    }
+    if (!this.state.isPlaying || !this.audio.context) {
+      this.transition({ loop, offset });
+      return;
+    }
+    // Without a loop the source has to stop at the skipped ranges again
+    if (outside || hadRegion || (!loop && this.skipRegions.length > 0)) {
+      this.transition({ loop });
+      this.seek(offset);
+      return;
+    }
+
+    // Change the loop on the running source, re-anchored so the position is
+    // no longer computed from the previous loop
+    const source = this.audio.source;
+    if (source) {
+      source.loop = loop !== null;
+      if (loop) {
+        source.loopStart = loop.start / this.sourceRate;
+        source.loopEnd = loop.end / this.sourceRate;
+      }
+    }
+    this.transition({
+      loop,
+      offset,
+      startTime: this.audio.context.currentTime,
+    });
+  }
+
+  // Playback jumps over these ranges, to preview cuts before they are
+  // rendered. Loops still play everything between their ends.
+  setSkipRegions(regions: PlaybackRegion[]) {
+    this.skipRegions = regions
+      .map(({ start, end }) => ({ start, end }))
+      .sort((a, b) => a.start - b.start);
+
+    if (this.state.isPlaying && !this.audio.media && !this.state.loop) {
+      const offset = this.getCurrentTime();
+      this.stopSource();
+      this.state.offset = offset;
+      this.startPlayback();
+    }
+  }
+
+  // Plays once from start to end, then pauses back at start
+  async playRegion(start: number, end: number) {
+    const region = this.clampRegion({ start, end });
+    if (!region) return;
+
+    this.stopSource();
+    this.state.offset = region.start;
+    this.region = region;
+    this.transition({ loop: null });
+    if (this.audio.media) {
+      this.audio.media.element.currentTime = region.start;
+    }
+
+    if (!this.state.isPlaying) {
+      await this.play();
+    } else if (this.audio.media) {
+      this.notify();
+    } else {
+      this.startPlayback();
+    }
+  }
+
+  // Rates outside what the stretch supports are clamped. Playback continues
+  // at the previous rate while the stretched copy is rendered.
+  async setPlaybackRate(rate: number) {
+    const playbackRate = Math.max(
+      MIN_STRETCH_RATE,
+      Math.min(MAX_STRETCH_RATE, rate)
+    );
+    if (playbackRate === this.state.playbackRate) return;
+
+    this.transition({ playbackRate });
+    // The media element preserves pitch by itself
+    if (this.audio.media) {
+      this.audio.media.element.playbackRate = playbackRate;
+      return;
+    }
+    await this.prepareRate(playbackRate);
+  }
+
+  private async prepareRate(rate: number) {
+    this.stretchController?.abort();
+    this.stretchController = null;
+    const { context, buffer, stretched } = this.audio;
+    if (!context || !buffer) return;
+
+    if (rate !== 1 && stretched?.rate !== rate) {
+      const controller = new AbortController();
+      this.stretchController = controller;
+      try {
+        const result = await stretchAudioBuffer(
+          context,
+          buffer,
+          rate,
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+        // Only one copy is kept, long recordings take a lot of memory
+        this.audio.stretched = { rate, buffer: result };
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('❌ Time-stretch failed:', error);
+        this.transition({
+          playbackRate: this.sourceRate,
+          error: this.toPlayerError(error, 'PLAYBACK_ERROR'),
+        });
+        return;
+      } finally {
+        if (this.stretchController === controller) {
+          this.stretchController = null;
+        }
+      }
+    }
+
+    this.switchSourceRate(rate);
+  }
+
+  private switchSourceRate(rate: number) {
+    if (rate === this.sourceRate) return;
+    if (!this.state.isPlaying) {
+      this.sourceRate = rate;
+      return;
+    }
+
+    // Restart from the same position in the other buffer
+    const offset = this.getCurrentTime();
+    this.stopSource();
+    this.sourceRate = rate;
+    this.state.offset = offset;
+    this.startPlayback();
+  }
+
+  private discardStretched() {
+    this.stretchController?.abort();
+    this.stretchController = null;
+    this.audio.stretched = null;
+    this.sourceRate = 1;
+  }
+
+  // Like most players, moving the volume unmutes
+  setVolume(volume: number) {
+    this.transition({
+      volume: Math.max(0, Math.min(1, volume)),
+      isMuted: false,
+    });
+    this.applyGains();
+  }
+
+  setMuted(isMuted: boolean) {
+    this.transition({ isMuted });
+    this.applyGains();
+  }
+
+  toggleMute() {
+    this.setMuted(!this.state.isMuted);
+  }
+
+  // Brings the audio to the target loudness once it has been measured
+  setNormalization(normalize: boolean) {
+    this.transition({ normalize });
+    this.applyGains();
+  }
+
   toggle() {
     if (this.state.isPlaying) {
       this.pause();
@@ -287,28 +1143,43 @@ export class AudioPlayer {
   dispose() {
     this.pause();
     this.stopTimeUpdates();
-    if (this.audio.context) {
-      this.audio.context.close();
-      this.audio.context = null;
-    }
+    this.discardStretched();
+    this.loudnessController?.abort();
+    this.loudnessController = null;
+    this.discardPeaks();
+    this.loadController?.abort();
+    this.loadController = null;
+    this.stopSource();
+    this.discardMedia();
+    void this.releaseContext().catch((error) => {
+      console.warn('⚠️ Could not close the AudioContext:', error);
+    });
+    this.region = null;
 
     this.audio.buffer = null;
     this.lastSnapshot = null;
-    this.stableSnapshot = {
-      isPlaying: false,
-      isReady: false,
-      currentTime: 0,
-      duration: 0,
-    };
+    this.stableSnapshot = INITIAL_PLAYER_STATE;
+    // Speed, volume and normalization are preferences and outlive the audio
+    const { id, playbackRate, volume, isMuted, normalize } = this.state;
     this.state = {
-      id: this.state.id,
+      id,
       isPlaying: false,
       isReady: false,
       currentTime: 0,
       offset: 0,
       duration: 0,
       startTime: 0,
+      playbackRate,
+      volume,
+      isMuted,
+      normalize,
+      loudness: null,
+      isStreaming: false,
+      loop: null,
+      isLoading: false,
+      loadProgress: 0,
       error: null,
     };
+    this.notify();
   }
 }
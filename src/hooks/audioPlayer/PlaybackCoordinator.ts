@@ -0,0 +1,49 @@
+import type { AudioPlayer } from '@/hooks/audioPlayer/AudioPlayer';
+
+// Keeps a group of players to one audible at a time: when one starts, the
+// others pause. The group also shares one AudioContext, created on first
+// use since browsers limit how many can be open.
+export class PlaybackCoordinator {
+  private players = new Set<AudioPlayer>();
+  private context: AudioContext | null = null;
+
+  getContext = () => {
+    if (!this.context) this.context = new window.AudioContext();
+    return this.context;
+  };
+
+  register(player: AudioPlayer) {
+    let wasPlaying = player.getSnapshot().isPlaying;
+    const unsubscribe = player.subscribe(() => {
+      const { isPlaying } = player.getSnapshot();
+      if (isPlaying && !wasPlaying) this.pauseOthers(player);
+      wasPlaying = isPlaying;
+    });
+    this.players.add(player);
+
+    return () => {
+      unsubscribe();
+      this.players.delete(player);
+    };
+  }
+
+  private pauseOthers(current: AudioPlayer) {
+    this.players.forEach((player) => {
+      if (player !== current) player.pause();
+    });
+  }
+
+  // Only closes the shared context; players keep their registrations and
+  // unregister themselves. Safe to call more than once, e.g. when strict
+  // mode runs the provider's effect cleanup and then the effect again: the
+  // next getContext() opens a fresh context.
+  dispose() {
+    const { context } = this;
+    this.context = null;
+    if (context && context.state !== 'closed') {
+      void context.close().catch((error) => {
+        console.warn('⚠️ Could not close the shared AudioContext:', error);
+      });
+    }
+  }
+}
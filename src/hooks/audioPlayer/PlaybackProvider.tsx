@@ -0,0 +1,30 @@
+'use client';
+
+import { createContext, useContext, useEffect, useState } from 'react';
+
+import { PlaybackCoordinator } from '@/hooks/audioPlayer/PlaybackCoordinator';
+
+const PlaybackCoordinatorContext = createContext<PlaybackCoordinator | null>(
+  null
+);
+
+// Players created by useAudioPlayer below this provider share an
+// AudioContext and never play over each other, e.g. in a list of notes
+export function PlaybackProvider({ children }: { children: React.ReactNode }) {
+  const [coordinator] = useState(() => new PlaybackCoordinator());
+
+  useEffect(() => {
+    return () => {
+      coordinator.dispose();
+    };
+  }, [coordinator]);
+
+  return (
+    <PlaybackCoordinatorContext.Provider value={coordinator}>
+      {children}
+    </PlaybackCoordinatorContext.Provider>
+  );
+}
+
+export const usePlaybackCoordinator = () =>
+  useContext(PlaybackCoordinatorContext);
@@ -3,50 +3,81 @@
 // useAudioPlayer.ts
 import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
 
-import { AudioPlayer } from '@/hooks/audioPlayer/AudioPlayer';
+import {
+  AudioPlayer,
+  INITIAL_PLAYER_STATE,
+  type AudioPlayerOptions,
+  type PlaybackRegion,
+} from '@/hooks/audioPlayer/AudioPlayer';
+import { usePlaybackCoordinator } from '@/hooks/audioPlayer/PlaybackProvider';
 
-const player = new AudioPlayer();
+const getServerSnapshot = () => INITIAL_PLAYER_STATE;
 
-const subscribe = (callback: () => void) => player.subscribe(callback);
-const getSnapshot = () => {
-  const state = player.getSnapshot();
-  return state;
-};
-
-// Cache the server snapshot object
-const SERVER_SNAPSHOT = Object.freeze({
-  isPlaying: false,
-  isReady: false,
-  currentTime: 0,
-  duration: 0,
-});
-
-const getServerSnapshot = () => SERVER_SNAPSHOT;
+export const useAudioPlayer = (options: AudioPlayerOptions = {}) => {
+  const coordinator = usePlaybackCoordinator();
+  // Each hook call owns its player. Below a PlaybackProvider the players
+  // share a context and pause each other.
+  const [player] = useState(
+    () => new AudioPlayer({ getContext: coordinator?.getContext, ...options })
+  );
 
-export const useAudioPlayer = () => {
+  const subscribe = useCallback(
+    (callback: () => void) => player.subscribe(callback),
+    [player]
+  );
+  const getSnapshot = useCallback(() => player.getSnapshot(), [player]);
   const state = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
 
-  const [isLoading, setIsLoading] = useState(false);
+  useEffect(() => coordinator?.register(player), [coordinator, player]);
 
   // Add this effect to handle cleanup when the component unmounts
   useEffect(() => {
     return () => {
       player.dispose();
     };
-  }, []);
+  }, [player]);
 
   return {
     ...state,
-    loadAudio: useCallback(async (url: string) => {
-      setIsLoading(true);
-      await player.loadAudio(url);
-      setIsLoading(false);
-    }, []),
-    play: useCallback(() => player.play(), []),
-    pause: useCallback(() => player.pause(), []),
-    seek: useCallback((time: number) => player.seek(time), []),
-    togglePlaying: useCallback(() => player.toggle(), []),
-    disposeAudioResources: useCallback(() => player.dispose(), []),
-    isLoading,
+    loadAudio: useCallback(
+      (url: string, signal?: AbortSignal, recording?: Blob) =>
+        player.loadAudio(url, signal, recording),
+      [player]
+    ),
+    cancelLoad: useCallback(() => player.cancelLoad(), [player]),
+    play: useCallback(() => player.play(), [player]),
+    pause: useCallback(() => player.pause(), [player]),
+    seek: useCallback((time: number) => player.seek(time), [player]),
+    setLoop: useCallback(
+      (region: PlaybackRegion | null) => player.setLoop(region),
+      [player]
+    ),
+    setSkipRegions: useCallback(
+      (regions: PlaybackRegion[]) => player.setSkipRegions(regions),
+      [player]
+    ),
+    playRegion: useCallback(
+      (start: number, end: number) => player.playRegion(start, end),
+      [player]
+    ),
+    setPlaybackRate: useCallback(
+      (rate: number) => player.setPlaybackRate(rate),
+      [player]
+    ),
+    setVolume: useCallback(
+      (volume: number) => player.setVolume(volume),
+      [player]
+    ),
+    setMuted: useCallback(
+      (isMuted: boolean) => player.setMuted(isMuted),
+      [player]
+    ),
+    toggleMute: useCallback(() => player.toggleMute(), [player]),
+    setNormalization: useCallback(
+      (normalize: boolean) => player.setNormalization(normalize),
+      [player]
+    ),
+    togglePlaying: useCallback(() => player.toggle(), [player]),
+    disposeAudioResources: useCallback(() => player.dispose(), [player]),
   };
 };
@@ -0,0 +1,1953 @@
+import {
+  estimateBytesPerSecond,
+  getBestSupportedMimeType,
+} from '@/hooks/audioConst';
+import {
+  PcmRecorder,
+  type PcmRecorderOptions,
+  type RecorderEngine,
+} from '@/hooks/audioRecorder/PcmRecorder';
+import {
+  InputMonitor,
+  type InputLevels,
+} from '@/hooks/audioRecorder/InputMonitor';
+import {
+  AudioFileError,
+  validateAudioFile,
+  type AudioFileErrorCode,
+} from '@/lib/audio/audioFile';
+import {
+  isCut,
+  mapThroughCuts,
+  normalizeCuts,
+  renderEdits,
+  type AudioRange,
+} from '@/lib/audio/editAudio';
+import { fixWebmBlob } from '@/lib/audio/fixWebmBlob';
+import { mergeAudioBlobs } from '@/lib/audio/mergeAudio';
+import { spliceAudio, type PunchInMode } from '@/lib/audio/spliceAudio';
+import {
+  DEFAULT_SILENCE_SECONDS,
+  detectSilences,
+} from '@/lib/audio/voiceActivity';
+import { finalizeStreamedWav, readWavInfo } from '@/lib/audio/wav';
+import {
+  createRecordingSession,
+  deleteRecordingSession,
+  finishRecordingSession,
+  listLiveRecordingSessionIds,
+  listRecordingSessions,
+  loadRecordingSessionBlob,
+  lockRecordingSession,
+  saveRecordingChunk,
+  type StoredRecordingSession,
+} from '@/lib/recordingStore';
+
+export type RecorderStatus = 'idle' | 'recording' | 'paused' | 'stopped';
+
+export type RecordingStopReason = 'user' | 'maxDuration' | 'maxSize';
+
+// What cut the input off mid-recording. Anything that happens while the
+// page is hidden counts as 'backgrounded'.
+export type InterruptionCause =
+  'trackEnded' | 'trackMuted' | 'audioSuspended' | 'backgrounded';
+
+export interface RecordingInterruption {
+  cause: InterruptionCause;
+  // The marker added where the recording was cut off
+  markerId: string;
+}
+
+export interface RecordingLimitWarning {
+  limit: 'duration' | 'size';
+  remainingSeconds: number;
+}
+
+// Problems with the live input; a muted track covers the missing signal
+export type InputWarning = 'noSignal' | 'clipping' | 'trackMuted';
+
+export interface InputLevel {
+  // dBFS of the recorded signal
+  rmsDb: number;
+  peakDb: number;
+}
+
+export interface RecordingSegment {
+  type: 'recording' | 'paused';
+  // Wall-clock offsets from the start of the session
+  startMs: number;
+  endMs: number | null;
+  // Position in the recorded audio where the segment begins
+  audioOffsetMs: number;
+}
+
+export interface RecordingMarker {
+  id: string;
+  label: string | null;
+  // Position in the recorded audio, pauses excluded
+  timeMs: number;
+  // Set on the markers added when the recording was interrupted
+  interruption?: InterruptionCause;
+}
+
+export interface PunchIn {
+  // Seconds into the stopped recording, usually the player position
+  at: number;
+  mode: PunchInMode;
+}
+
+export interface StartRecordingOptions {
+  // Record a new take after the stopped recording instead of replacing it
+  append?: boolean;
+  // Record a new take into the stopped recording at a given point
+  punchIn?: PunchIn;
+}
+
+// Chunks as MediaRecorder delivers them, for consumers that stream them out.
+// Every take is its own session that ends with 'end', or 'abort' when the
+// take is thrown away. A take appended or punched into a stopped recording
+// first aborts the session of the take before it, whose upload no longer
+// matches the recording.
+export type RecorderChunkEvent =
+  | {
+      type: 'chunk';
+      sessionId: string;
+      seq: number;
+      blob: Blob;
+      mimeType: string;
+    }
+  | { type: 'end'; sessionId: string; chunkCount: number; mimeType: string }
+  | { type: 'abort'; sessionId: string };
+
+export interface AudioRecorderOptions {
+  maxDurationSeconds?: number;
+  maxSizeBytes?: number;
+  // How long before a limit is reached the warning is raised
+  limitWarningSeconds?: number;
+  // Records uncompressed WAV with the PCM engine even where MediaRecorder
+  // works, e.g. for the transcription pipeline
+  lossless?: boolean;
+  // Format of the PCM engine, also used when no MediaRecorder type works
+  pcmFormat?: PcmRecorderOptions;
+  voiceActivity?: VoiceActivityOptions;
+}
+
+export interface VoiceActivityOptions {
+  // 'autoPause' pauses the recording after `silenceSeconds` without speech
+  // and resumes it when speech returns; 'trim' removes silences that long
+  // from the final recording
+  mode: 'autoPause' | 'trim';
+  // Input level that counts as speech, in dBFS. Defaults to -45.
+  thresholdDb?: number;
+  // Defaults to 8 seconds (DEFAULT_SILENCE_SECONDS)
+  silenceSeconds?: number;
+}
+
+export interface AudioRecorderState {
+  status: RecorderStatus;
+  // Whole seconds, kept for display; recordingTimeMs is the precise value
+  recordingTime: number;
+  recordingTimeMs: number;
+  timeline: RecordingSegment[];
+  markers: RecordingMarker[];
+  recordingBlob: Blob | null;
+  blobUrl: string | null;
+  error: RecorderError | null;
+  recordedBytes: number;
+  limitWarning: RecordingLimitWarning | null;
+  stopReason: RecordingStopReason | null;
+  // A MediaRecorder, or the PcmRecorder standing in for one
+  mediaRecorder: RecorderEngine | null;
+  devices: MediaDeviceInfo[];
+  selectedDeviceId: string | null;
+  currentDeviceLabel: string | null;
+  recoverableSessions: StoredRecordingSession[];
+  // Takes are being merged into one file
+  isProcessing: boolean;
+  // A previous version of the recording is kept for undoEdit()
+  canUndo: boolean;
+  // Speech is heard on the input, while recording or paused
+  isSpeaking: boolean;
+  // Paused by voice-activity detection, speech resumes the recording
+  autoPaused: boolean;
+  // Measured while recording or paused, null otherwise
+  inputLevel: InputLevel | null;
+  inputWarnings: InputWarning[];
+  // The recording is paused until resumeAfterInterruption()
+  interruption: RecordingInterruption | null;
+}
+
+export const INITIAL_RECORDER_STATE: AudioRecorderState = Object.freeze({
+  status: 'idle',
+  recordingTime: 0,
+  recordingTimeMs: 0,
+  timeline: [],
+  markers: [],
+  recordingBlob: null,
+  blobUrl: null,
+  error: null,
+  recordedBytes: 0,
+  limitWarning: null,
+  stopReason: null,
+  mediaRecorder: null,
+  devices: [],
+  selectedDeviceId: null,
+  currentDeviceLabel: null,
+  recoverableSessions: [],
+  isProcessing: false,
+  canUndo: false,
+  isSpeaking: false,
+  autoPaused: false,
+  inputLevel: null,
+  inputWarnings: [],
+  interruption: null,
+});
+
+export const RECORDER_OPTIONS = {
+  audioBitsPerSecond: 24000,
+  timeslice: 200, // Adjusted to 1 second for better performance
+} as const;
+
+export type RecorderErrorCode =
+  | 'PERMISSION_DENIED'
+  | 'NO_DEVICE'
+  | 'DEVICE_BUSY'
+  | 'UNSUPPORTED_MIME'
+  | 'NO_DATA'
+  | 'TRACK_ENDED'
+  | 'MERGE_FAILED'
+  | 'EDIT_FAILED'
+  | 'FILE_TOO_LARGE'
+  | 'FILE_TOO_LONG'
+  | 'FILE_UNSUPPORTED'
+  | 'FILE_UNDECODABLE'
+  | 'UNKNOWN';
+
+export class RecorderError extends Error {
+  constructor(
+    message: string,
+    public code: RecorderErrorCode
+  ) {
+    super(message);
+    this.name = 'RecorderError';
+  }
+}
+
+// Only these can succeed on a second attempt, e.g. once another app
+// releases the microphone. A permission denial will never recover by retrying.
+const TRANSIENT_ERROR_CODES: RecorderErrorCode[] = ['DEVICE_BUSY', 'UNKNOWN'];
+
+// Maps getUserMedia and MediaRecorder DOMException names to our codes
+const ERROR_NAME_CODES: Record<string, RecorderErrorCode> = {
+  NotAllowedError: 'PERMISSION_DENIED',
+  PermissionDeniedError: 'PERMISSION_DENIED',
+  SecurityError: 'PERMISSION_DENIED',
+  NotFoundError: 'NO_DEVICE',
+  DevicesNotFoundError: 'NO_DEVICE',
+  OverconstrainedError: 'NO_DEVICE',
+  ConstraintNotSatisfiedError: 'NO_DEVICE',
+  NotReadableError: 'DEVICE_BUSY',
+  TrackStartError: 'DEVICE_BUSY',
+  AbortError: 'DEVICE_BUSY',
+  NotSupportedError: 'UNSUPPORTED_MIME',
+};
+
+export const toRecorderError = (error: unknown): RecorderError => {
+  if (error instanceof RecorderError) return error;
+
+  // MediaRecorder error events carry the DOMException in `error`
+  const cause =
+    error instanceof Event && 'error' in error
+      ? (error as Event & { error: unknown }).error
+      : error;
+  const name = cause instanceof Error ? cause.name : '';
+  const message =
+    cause instanceof Error ? cause.message : 'Unknown recording error';
+
+  return new RecorderError(message, ERROR_NAME_CODES[name] ?? 'UNKNOWN');
+};
+
+export const isTransientRecorderError = (error: RecorderError) =>
+  TRANSIENT_ERROR_CODES.includes(error.code);
+
+const FILE_ERROR_CODES: Record<AudioFileErrorCode, RecorderErrorCode> = {
+  EMPTY: 'NO_DATA',
+  TOO_LARGE: 'FILE_TOO_LARGE',
+  TOO_LONG: 'FILE_TOO_LONG',
+  UNSUPPORTED: 'FILE_UNSUPPORTED',
+  UNDECODABLE: 'FILE_UNDECODABLE',
+};
+
+// A stopped recording, as kept for undo and for new takes to build on
+interface RecordingVersion {
+  blob: Blob;
+  markers: RecordingMarker[];
+  timeline: RecordingSegment[];
+  recordingTimeMs: number;
+  recordedBytes: number;
+  sessionStart: number | null;
+}
+
+interface RecordingBase extends RecordingVersion {
+  punchIn: PunchIn | null;
+}
+
+// Stored chunks are what the engine emitted before it stopped. A PCM session
+// is a streamed WAV whose header still has placeholder sizes, and a crash
+// can cut its last sample frame short.
+const repairStoredBlob = async (blob: Blob) => {
+  const wavInfo = await readWavInfo(blob);
+  if (!wavInfo) return fixWebmBlob(blob);
+
+  const frameBytes = wavInfo.channels * (wavInfo.bitDepth / 8);
+  const dataLength = wavInfo.dataLength - (wavInfo.dataLength % frameBytes);
+  return finalizeStreamedWav(
+    [blob.slice(0, wavInfo.dataOffset + dataLength)],
+    wavInfo
+  );
+};
+
+// Size limits count the encoded bytes that went into a recording, not the
+// size of a joined or re-encoded result. A dropped part takes its share.
+const keptBytes = (bytes: number, durationMs: number, keptMs: number) =>
+  durationMs > 0
+    ? Math.round(bytes * Math.min(1, Math.max(0, keptMs / durationMs)))
+    : bytes;
+
+// Moves what lies after `atMs` in the base; null drops it
+const realign = <T>(
+  items: T[],
+  getTime: (item: T) => number,
+  setTime: (item: T, timeMs: number) => T,
+  atMs: number,
+  shiftMs: number | null
+) =>
+  items.flatMap((item) => {
+    const timeMs = getTime(item);
+    if (timeMs < atMs) return [item];
+    if (shiftMs === null) return [];
+    return [setTime(item, Math.round(timeMs + shiftMs))];
+  });
+
+const MAX_UNDO_VERSIONS = 10;
+// Imports are decoded in full, so there is a cap even without maxSizeBytes
+const DEFAULT_MAX_IMPORT_BYTES = 200 * 1024 * 1024;
+
+const MAX_START_RETRIES = 2;
+// Only how often the time is published, it is measured from timestamps
+const TIMER_INTERVAL_MS = 100;
+const DEFAULT_LIMIT_WARNING_SECONDS = 30;
+// Below this the running size is too noisy to extrapolate from
+const MIN_SECONDS_FOR_MEASURED_RATE = 3;
+
+const SELECTED_DEVICE_STORAGE_KEY = 'audioRecorder:selectedDeviceId';
+
+const readStoredDeviceId = (): string | null => {
+  try {
+    return localStorage.getItem(SELECTED_DEVICE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const storeDeviceId = (deviceId: string) => {
+  try {
+    localStorage.setItem(SELECTED_DEVICE_STORAGE_KEY, deviceId);
+  } catch (error) {
+    console.error('Error saving selected device:', error);
+  }
+};
+
+const getStreamDeviceLabel = (stream: MediaStream) =>
+  stream.getAudioTracks()[0]?.label || 'Default Microphone';
+
+// The saved device is only used if it is still connected, otherwise the
+// browser default is requested
+const resolveDeviceId = (
+  audioDevices: MediaDeviceInfo[],
+  preferred: string | null
+) => {
+  if (preferred && audioDevices.some((d) => d.deviceId === preferred)) {
+    return preferred;
+  }
+  return null;
+};
+
+const getStreamDeviceId = (stream: MediaStream | null) =>
+  stream?.getAudioTracks()[0]?.getSettings().deviceId ?? null;
+
+const isSafari = () =>
+  /^((?!chrome|android).)*safari/i.test(navigator.userAgent);
+
+const getAudioConstraints = (deviceId: string | null) => {
+  if (isSafari()) {
+    console.log('Safari detected');
+    return {
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        echoCancellation: { ideal: true },
+        noiseSuppression: { ideal: true },
+        autoGainControl: { ideal: true },
+        sampleRate: { ideal: 44100 }, // Safari works better with this sample rate
+      },
+    };
+  }
+
+  return {
+    audio: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+    },
+  };
+};
+
+// AudioRecorder.ts
+export class AudioRecorder {
+  private static instanceCounter = 0;
+  // Sessions being recorded by any instance on this page, so they are never
+  // offered for recovery while still in use. Other tabs see the session lock.
+  private static activeSessionIds = new Set<string>();
+
+  readonly id = `recorder-${++AudioRecorder.instanceCounter}`;
+  private state: AudioRecorderState = INITIAL_RECORDER_STATE;
+  private subscribers = new Set<() => void>();
+  private chunkListeners = new Set<(event: RecorderChunkEvent) => void>();
+  // Session whose chunks are being emitted and has not ended yet
+  private openChunkSession: string | null = null;
+  // Session of the recording's last take, once it has ended
+  private endedChunkSession: string | null = null;
+  private options: AudioRecorderOptions;
+
+  // The recorder never sees the microphone stream directly: it records the
+  // destination node so the input can be swapped mid-take
+  private input = {
+    stream: null as MediaStream | null,
+    context: null as AudioContext | null,
+    source: null as MediaStreamAudioSourceNode | null,
+    destination: null as MediaStreamAudioDestinationNode | null,
+  };
+  private inputMonitor: InputMonitor | null = null;
+  private inputFlags = {
+    isClipping: false,
+    hasNoSignal: false,
+    trackMuted: false,
+  };
+
+  private chunks: Blob[] = [];
+  private mimeType: string | null = null;
+  private timerId: ReturnType<typeof setInterval> | null = null;
+  // High-resolution timestamps from performance.now()
+  private clock = {
+    sessionStart: null as number | null,
+    // Start of the open recording segment, null while paused or stopped
+    segmentStart: null as number | null,
+    // Audio recorded in the closed recording segments
+    accumulatedMs: 0,
+  };
+  private recorderCleanup: (() => void) | null = null;
+  // Id of the session whose chunks are being persisted to IndexedDB
+  private sessionId: string | null = null;
+  private releaseSessionLock = () => {};
+  private chunkSeq = 0;
+  private stopReason: RecordingStopReason = 'user';
+  private fallbackPromise: Promise<void> | null = null;
+  private base: RecordingBase | null = null;
+  private history: RecordingVersion[] = [];
+  // Bumped on every teardown so a merge finishing late is discarded
+  private generation = 0;
+  private initialized = false;
+
+  constructor(options: AudioRecorderOptions = {}) {
+    this.options = options;
+  }
+
+  private notify() {
+    this.subscribers.forEach((cb) => {
+      cb();
+    });
+  }
+
+  private transition(updates: Partial<AudioRecorderState>) {
+    const changed = (Object.keys(updates) as (keyof AudioRecorderState)[]).some(
+      (key) => updates[key] !== this.state[key]
+    );
+    if (!changed) return;
+
+    this.state = { ...this.state, ...updates };
+    this.notify();
+  }
+
+  getSnapshot(): AudioRecorderState {
+    return this.state;
+  }
+
+  subscribe(callback: () => void) {
+    this.subscribers.add(callback);
+    return () => {
+      this.subscribers.delete(callback);
+    };
+  }
+
+  subscribeChunks(listener: (event: RecorderChunkEvent) => void) {
+    this.chunkListeners.add(listener);
+    return () => {
+      this.chunkListeners.delete(listener);
+    };
+  }
+
+  private emitChunkEvent(event: RecorderChunkEvent) {
+    this.chunkListeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ Chunk listener failed:', error);
+      }
+    });
+  }
+
+  private closeChunkSession(type: 'end' | 'abort') {
+    const sessionId = this.openChunkSession;
+    if (!sessionId) return;
+    this.openChunkSession = null;
+    if (type === 'end') this.endedChunkSession = sessionId;
+    this.emitChunkEvent(
+      type === 'end'
+        ? {
+            type,
+            sessionId,
+            chunkCount: this.chunkSeq,
+            mimeType: this.mimeType!,
+          }
+        : { type, sessionId }
+    );
+  }
+
+  setOptions(options: AudioRecorderOptions) {
+    this.options = options;
+  }
+
+  // Browser-only setup, kept out of the constructor so instances can be
+  // created during server rendering
+  init() {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    this.transition({ selectedDeviceId: readStoredDeviceId() });
+    this.refreshDevices();
+    this.loadRecoverableSessions();
+    navigator.mediaDevices?.addEventListener(
+      'devicechange',
+      this.handleDeviceChange
+    );
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  dispose() {
+    this.initialized = false;
+    navigator.mediaDevices?.removeEventListener(
+      'devicechange',
+      this.handleDeviceChange
+    );
+    document.removeEventListener(
+      'visibilitychange',
+      this.handleVisibilityChange
+    );
+    // Keep the persisted chunks, an unfinished recording stays recoverable
+    this.teardown(false);
+    this.state = INITIAL_RECORDER_STATE;
+  }
+
+  // Unfinished sessions left in IndexedDB by a previous run can be recovered.
+  // Finished ones were already handed over, so they are just cleaned up.
+  private async loadRecoverableSessions() {
+    try {
+      const [sessions, liveIds] = await Promise.all([
+        listRecordingSessions(),
+        listLiveRecordingSessionIds(),
+      ]);
+      const previous = sessions.filter(
+        (session) =>
+          !AudioRecorder.activeSessionIds.has(session.id) &&
+          !liveIds.has(session.id)
+      );
+      previous
+        .filter((session) => session.finishedAt !== null)
+        .forEach((session) => deleteRecordingSession(session.id));
+
+      const unfinished = previous.filter(
+        (session) => session.finishedAt === null && session.chunkCount > 0
+      );
+      console.log('💾 Recoverable sessions:', unfinished);
+      this.transition({ recoverableSessions: unfinished });
+    } catch (error) {
+      console.error('Error listing recoverable sessions:', error);
+    }
+  }
+
+  private async refreshDevices() {
+    try {
+      const deviceInfos = await navigator.mediaDevices.enumerateDevices();
+      const audioDevices = deviceInfos.filter(
+        (device) => device.kind === 'audioinput'
+      );
+      console.log('🎤 Found devices:', audioDevices);
+      this.transition({ devices: audioDevices });
+      return audioDevices;
+    } catch (error) {
+      console.error('Error enumerating devices:', error);
+      return this.state.devices;
+    }
+  }
+
+  private isActive() {
+    const recorder = this.state.mediaRecorder;
+    return !!recorder && recorder.state !== 'inactive';
+  }
+
+  // `stop()` does not fire `ended`, so this only catches tracks the
+  // browser or the OS ended on us
+  private watchStream(stream: MediaStream) {
+    stream.getAudioTracks().forEach((track) => {
+      track.addEventListener('ended', this.handleTrackEnded);
+      track.addEventListener('mute', this.handleTrackMute);
+      track.addEventListener('unmute', this.handleTrackMute);
+    });
+    this.inputFlags.trackMuted = stream
+      .getAudioTracks()
+      .some((track) => track.muted);
+    this.publishInputWarnings();
+  }
+
+  private releaseStream(stream: MediaStream) {
+    stream.getTracks().forEach((track) => {
+      track.removeEventListener('ended', this.handleTrackEnded);
+      track.removeEventListener('mute', this.handleTrackMute);
+      track.removeEventListener('unmute', this.handleTrackMute);
+      track.stop();
+    });
+  }
+
+  // Connect a new microphone to the recording graph and drop the old one.
+  // The recorder keeps running, so chunks already recorded are preserved.
+  private async switchInput(deviceId: string | null) {
+    const { context, destination } = this.input;
+    if (!context || !destination) return;
+
+    console.log('🔀 Switching input device:', deviceId ?? 'default');
+    const stream = await navigator.mediaDevices.getUserMedia(
+      getAudioConstraints(deviceId)
+    );
+    const source = context.createMediaStreamSource(stream);
+    source.connect(destination);
+
+    this.input.source?.disconnect();
+    if (this.input.stream) this.releaseStream(this.input.stream);
+
+    this.input.source = source;
+    this.input.stream = stream;
+    this.watchStream(stream);
+    this.transition({ currentDeviceLabel: getStreamDeviceLabel(stream) });
+  }
+
+  // Both `devicechange` and the track `ended` event can report the same
+  // unplug, so concurrent fallbacks share a single switch
+  private fallbackToAvailableInput(audioDevices: MediaDeviceInfo[]) {
+    if (!this.fallbackPromise) {
+      console.warn('⚠️ Current microphone disconnected, using fallback');
+      this.fallbackPromise = this.switchInput(
+        resolveDeviceId(audioDevices, this.state.selectedDeviceId)
+      ).finally(() => {
+        this.fallbackPromise = null;
+      });
+    }
+    return this.fallbackPromise;
+  }
+
+  // Fall back to another microphone if the current one disappears mid-recording
+  private handleDeviceChange = async () => {
+    const audioDevices = await this.refreshDevices();
+    if (!this.isActive()) return;
+
+    // A connected microphone whose track ended was taken by the system,
+    // handleTrackEnded treats that as an interruption
+    const currentDeviceId = getStreamDeviceId(this.input.stream);
+    const stillConnected = audioDevices.some(
+      (device) => device.deviceId === currentDeviceId
+    );
+    if (stillConnected) return;
+
+    try {
+      await this.fallbackToAvailableInput(audioDevices);
+    } catch (error) {
+      console.error('❌ Failed to switch to fallback microphone:', error);
+    }
+  };
+
+  // An unplugged microphone is replaced by another one. If it is still
+  // connected the system took it, e.g. for a call, and the recording waits
+  // for it to be released; so it does without a microphone to fall back to.
+  private handleTrackEnded = async () => {
+    if (!this.isActive()) return;
+
+    const currentDeviceId = getStreamDeviceId(this.input.stream);
+    const audioDevices = await this.refreshDevices();
+    if (audioDevices.some((device) => device.deviceId === currentDeviceId)) {
+      this.interrupt('trackEnded');
+      return;
+    }
+    try {
+      await this.fallbackToAvailableInput(audioDevices);
+    } catch (error) {
+      console.error('❌ Microphone track ended without fallback:', error);
+      this.interrupt('trackEnded');
+    }
+  };
+
+  private handleContextStateChange = () => {
+    const state = this.input.context?.state;
+    if (state && state !== 'running') this.interrupt('audioSuspended');
+  };
+
+  // Mobile browsers may cut the input off in the background without any
+  // event reaching the page, so it is checked on the way back
+  private handleVisibilityChange = () => {
+    if (document.hidden || !this.isActive()) return;
+
+    const tracks = this.input.stream?.getAudioTracks() ?? [];
+    const cutOff =
+      this.input.context?.state !== 'running' ||
+      tracks.some((track) => track.readyState === 'ended' || track.muted);
+    if (cutOff) this.interrupt('backgrounded');
+  };
+
+  // Pauses and marks the point where the input was lost. The recorder and
+  // its session stay open for resumeAfterInterruption().
+  private interrupt(cause: InterruptionCause) {
+    if (!this.isActive() || this.state.interruption) return;
+
+    const interruption = document.hidden ? 'backgrounded' : cause;
+    console.warn('⚠️ Recording interrupted:', interruption);
+    this.runPauseResume(() => this.pauseRecorder(false));
+    const marker = this.pushMarker(null, interruption);
+    this.transition({
+      interruption: { cause: interruption, markerId: marker.id },
+      autoPaused: false,
+    });
+  }
+
+  private getRecordingTimeMs(now = performance.now()) {
+    const { segmentStart, accumulatedMs } = this.clock;
+    return accumulatedMs + (segmentStart !== null ? now - segmentStart : 0);
+  }
+
+  private getTimeUpdates(now = performance.now()) {
+    const recordingTimeMs = Math.round(this.getRecordingTimeMs(now));
+    return {
+      recordingTimeMs,
+      recordingTime: Math.floor(recordingTimeMs / 1000),
+    };
+  }
+
+  private resetClock() {
+    this.clock = { sessionStart: null, segmentStart: null, accumulatedMs: 0 };
+  }
+
+  // Closes the open timeline segment and opens one of `type` at the same
+  // instant, so segments never overlap or leave gaps
+  private markSegment(
+    type: RecordingSegment['type'] | null,
+    now = performance.now()
+  ) {
+    const { sessionStart, segmentStart } = this.clock;
+    if (sessionStart === null) return;
+
+    const open = this.state.timeline.some((segment) => segment.endMs === null);
+    if (!open && !type) return;
+
+    if (segmentStart !== null) {
+      this.clock.accumulatedMs += now - segmentStart;
+    }
+    this.clock.segmentStart = type === 'recording' ? now : null;
+
+    const offsetMs = Math.round(now - sessionStart);
+    const timeline = this.state.timeline.map((segment) =>
+      segment.endMs === null ? { ...segment, endMs: offsetMs } : segment
+    );
+    if (type) {
+      timeline.push({
+        type,
+        startMs: offsetMs,
+        endMs: null,
+        audioOffsetMs: Math.round(this.clock.accumulatedMs),
+      });
+    }
+
+    this.transition({ timeline, ...this.getTimeUpdates(now) });
+  }
+
+  private clearTimer() {
+    if (this.timerId === null) return;
+    clearInterval(this.timerId);
+    this.timerId = null;
+  }
+
+  // Publishes the measured time; a delayed tick cannot make it drift
+  private startTimer() {
+    this.clearTimer();
+    this.timerId = setInterval(() => {
+      this.transition(this.getTimeUpdates());
+      this.checkLimits();
+      this.checkSilence();
+    }, TIMER_INTERVAL_MS);
+  }
+
+  // Listens to what is recorded rather than the microphone, so it follows
+  // input switches
+  private startInputMonitor(context: AudioContext, stream: MediaStream) {
+    this.inputMonitor = new InputMonitor(
+      context,
+      stream,
+      {
+        onLevels: this.handleInputLevels,
+        onSpeechChange: this.handleSpeechChange,
+      },
+      { speechThresholdDb: this.options.voiceActivity?.thresholdDb }
+    );
+    this.inputMonitor.start();
+  }
+
+  private handleInputLevels = ({
+    rmsDb,
+    peakDb,
+    isClipping,
+    hasNoSignal,
+  }: InputLevels) => {
+    const current = this.state.inputLevel;
+    if (current?.rmsDb !== rmsDb || current?.peakDb !== peakDb) {
+      this.transition({ inputLevel: { rmsDb, peakDb } });
+    }
+    this.inputFlags = { ...this.inputFlags, isClipping, hasNoSignal };
+    this.publishInputWarnings();
+  };
+
+  private handleTrackMute = (event: Event) => {
+    const track = event.target as MediaStreamTrack;
+    if (track.muted) {
+      console.warn('⚠️ Microphone track muted');
+    } else {
+      console.log('🎤 Microphone track unmuted');
+    }
+    this.inputFlags.trackMuted = track.muted;
+    this.publishInputWarnings();
+    if (track.muted) this.interrupt('trackMuted');
+  };
+
+  private publishInputWarnings() {
+    const { isClipping, hasNoSignal, trackMuted } = this.inputFlags;
+    const inputWarnings: InputWarning[] = [];
+    if (trackMuted) {
+      inputWarnings.push('trackMuted');
+    } else if (hasNoSignal) {
+      inputWarnings.push('noSignal');
+    }
+    if (isClipping) inputWarnings.push('clipping');
+
+    if (inputWarnings.join() !== this.state.inputWarnings.join()) {
+      this.transition({ inputWarnings });
+    }
+  }
+
+  private handleSpeechChange = (isSpeaking: boolean) => {
+    this.transition({ isSpeaking });
+    if (isSpeaking && this.state.autoPaused && !this.state.interruption) {
+      console.log('🗣️ Speech detected, resuming');
+      this.runPauseResume(() => this.resumeRecorder());
+    }
+  };
+
+  private checkSilence() {
+    const { voiceActivity } = this.options;
+    if (voiceActivity?.mode !== 'autoPause' || !this.inputMonitor) return;
+    if (this.state.mediaRecorder?.state !== 'recording') return;
+
+    const silenceSeconds =
+      voiceActivity.silenceSeconds ?? DEFAULT_SILENCE_SECONDS;
+    if (this.inputMonitor.getSilenceMs() < silenceSeconds * 1000) return;
+    console.log('🤫 Silence detected, pausing');
+    this.runPauseResume(() => this.pauseRecorder(true));
+  }
+
+  // What the recording amounts to once the take in progress is applied. An
+  // overwrite punch-in drops the base after its start point, an insert keeps
+  // all of it.
+  private getProjectedSize() {
+    const bytes = this.state.recordedBytes;
+    const durationMs = this.getRecordingTimeMs();
+    const base = this.base;
+    if (!base?.punchIn) return { bytes, durationMs };
+
+    const atMs = base.punchIn.at * 1000;
+    const takeBytes = bytes - base.recordedBytes;
+    const takeMs = durationMs - atMs;
+    if (base.punchIn.mode === 'insert') {
+      return { bytes, durationMs: base.recordingTimeMs + takeMs };
+    }
+    return {
+      bytes:
+        keptBytes(base.recordedBytes, base.recordingTimeMs, atMs) + takeBytes,
+      durationMs,
+    };
+  }
+
+  // Prefer the real running size once there is enough of it, the
+  // AUDIO_CONFIGS estimate is only a starting point
+  private getBytesPerSecond() {
+    const { bytes, durationMs } = this.getProjectedSize();
+    const seconds = durationMs / 1000;
+    if (seconds >= MIN_SECONDS_FOR_MEASURED_RATE && bytes > 0) {
+      return bytes / seconds;
+    }
+    const recorder = this.state.mediaRecorder;
+    if (recorder instanceof PcmRecorder) return recorder.bytesPerSecond;
+    return estimateBytesPerSecond(this.mimeType ?? '');
+  }
+
+  private checkLimits() {
+    if (this.state.mediaRecorder?.state !== 'recording') return;
+
+    const {
+      maxDurationSeconds,
+      maxSizeBytes,
+      limitWarningSeconds = DEFAULT_LIMIT_WARNING_SECONDS,
+    } = this.options;
+    let warning: RecordingLimitWarning | null = null;
+
+    if (maxDurationSeconds) {
+      const remainingMs = maxDurationSeconds * 1000 - this.getRecordingTimeMs();
+      const remainingSeconds = Math.ceil(remainingMs / 1000);
+      if (remainingMs <= 0) {
+        console.warn('⏱️ Max duration reached, stopping');
+        this.stop('maxDuration');
+        return;
+      }
+      if (remainingSeconds <= limitWarningSeconds) {
+        warning = { limit: 'duration', remainingSeconds };
+      }
+    }
+
+    if (maxSizeBytes) {
+      const bytesPerSecond = this.getBytesPerSecond();
+      // Leave room for the chunk in progress and the final flush on stop
+      const margin = bytesPerSecond * (RECORDER_OPTIONS.timeslice / 1000) * 2;
+      const remainingBytes =
+        maxSizeBytes - this.getProjectedSize().bytes - margin;
+      if (remainingBytes <= 0) {
+        console.warn('💾 Max size reached, stopping');
+        this.stop('maxSize');
+        return;
+      }
+      const remainingSeconds = Math.floor(remainingBytes / bytesPerSecond);
+      if (
+        remainingSeconds <= limitWarningSeconds &&
+        (!warning || remainingSeconds < warning.remainingSeconds)
+      ) {
+        warning = { limit: 'size', remainingSeconds };
+      }
+    }
+
+    const current = this.state.limitWarning;
+    if (
+      current?.limit !== warning?.limit ||
+      current?.remainingSeconds !== warning?.remainingSeconds
+    ) {
+      this.transition({ limitWarning: warning });
+    }
+  }
+
+  // Stop the microphone and tear down the recording graph
+  private releaseInput() {
+    this.inputMonitor?.dispose();
+    this.inputMonitor = null;
+    this.inputFlags = {
+      isClipping: false,
+      hasNoSignal: false,
+      trackMuted: false,
+    };
+    this.input.source?.disconnect();
+    this.input.source = null;
+    this.input.destination = null;
+
+    if (this.input.stream) {
+      this.releaseStream(this.input.stream);
+      this.input.stream = null;
+    }
+
+    if (this.input.context) {
+      this.input.context.removeEventListener(
+        'statechange',
+        this.handleContextStateChange
+      );
+      this.input.context.close().catch(() => {});
+      this.input.context = null;
+    }
+  }
+
+  private setSessionId(sessionId: string | null) {
+    if (this.sessionId) AudioRecorder.activeSessionIds.delete(this.sessionId);
+    this.releaseSessionLock();
+    this.sessionId = sessionId;
+    this.releaseSessionLock = () => {};
+    if (sessionId) {
+      AudioRecorder.activeSessionIds.add(sessionId);
+      this.releaseSessionLock = lockRecordingSession(sessionId);
+    }
+  }
+
+  // The list can be stale, another tab may have picked the session up since
+  private async isSessionLive(sessionId: string) {
+    if (AudioRecorder.activeSessionIds.has(sessionId)) return true;
+    const liveIds = await listLiveRecordingSessionIds();
+    return liveIds.has(sessionId);
+  }
+
+  private persistChunk(chunk: Blob) {
+    const sessionId = this.sessionId;
+    if (!sessionId) return;
+    const seq = this.chunkSeq++;
+    saveRecordingChunk(sessionId, seq, chunk).catch((error) => {
+      console.error('❌ Failed to persist chunk:', error);
+    });
+    this.emitChunkEvent({
+      type: 'chunk',
+      sessionId,
+      seq,
+      blob: chunk,
+      mimeType: this.mimeType!,
+    });
+  }
+
+  private finishSession(sessionId: string) {
+    finishRecordingSession(sessionId).catch((error) => {
+      console.error('Error finishing recording session:', error);
+    });
+  }
+
+  private handleError(error: unknown) {
+    console.error('❌ Recording error:', error);
+    const base = this.base;
+    this.base = null;
+    // Keep the persisted chunks, they may still be recoverable
+    this.teardown(false);
+
+    // A failed take must not lose the recording it was appended to
+    if (base) {
+      this.restoreBase(base);
+      this.transition({
+        status: 'stopped',
+        recordingBlob: base.blob,
+        blobUrl: URL.createObjectURL(base.blob),
+        error: toRecorderError(error),
+      });
+      return;
+    }
+    this.transition({ status: 'idle', error: toRecorderError(error) });
+  }
+
+  private captureVersion(): RecordingVersion | null {
+    const { recordingBlob, markers, timeline, recordingTimeMs, recordedBytes } =
+      this.state;
+    if (!recordingBlob) return null;
+    return {
+      blob: recordingBlob,
+      markers,
+      timeline,
+      recordingTimeMs,
+      recordedBytes,
+      sessionStart: this.clock.sessionStart,
+    };
+  }
+
+  private pushHistory(version: RecordingVersion) {
+    this.history = [...this.history, version].slice(-MAX_UNDO_VERSIONS);
+    this.transition({ canUndo: true });
+  }
+
+  private restoreBase(base: RecordingVersion) {
+    this.clock = {
+      sessionStart: base.sessionStart,
+      segmentStart: null,
+      accumulatedMs: base.recordingTimeMs,
+    };
+    this.transition({
+      markers: base.markers,
+      timeline: base.timeline,
+      recordedBytes: base.recordedBytes,
+      ...this.getTimeUpdates(),
+    });
+  }
+
+  // The recording is only handed out once its WebM metadata is fixed, so
+  // every consumer gets a file with a duration and seek cues
+  private async publishRecording(blob: Blob) {
+    const generation = this.generation;
+    const sessionId = this.sessionId;
+    this.transition({ isProcessing: true });
+
+    const fixed = await fixWebmBlob(blob);
+    if (generation !== this.generation) return;
+
+    this.transition({
+      isProcessing: false,
+      recordingBlob: fixed,
+      blobUrl: URL.createObjectURL(fixed),
+    });
+    if (sessionId) this.finishSession(sessionId);
+    this.trimSilences();
+  }
+
+  // Long silences are removed as an edit, so undoEdit() brings them back
+  private async trimSilences() {
+    const { voiceActivity } = this.options;
+    const blob = this.state.recordingBlob;
+    if (voiceActivity?.mode !== 'trim' || !blob) return;
+
+    const generation = this.generation;
+    try {
+      const silences = await detectSilences(blob, {
+        thresholdDb: voiceActivity.thresholdDb,
+        minSilenceSeconds: voiceActivity.silenceSeconds,
+      });
+      if (generation !== this.generation) return;
+      if (blob !== this.state.recordingBlob || !silences.length) return;
+
+      console.log('🤫 Trimming silences:', silences);
+      await this.applyEdits(silences);
+    } catch (error) {
+      console.warn('⚠️ Could not detect silences:', error);
+    }
+  }
+
+  // Joins the new take to the recording it was built on. Markers and
+  // segments are realigned to the decoded lengths, which are authoritative.
+  private async applyTake(base: RecordingBase, take: Blob) {
+    const generation = this.generation;
+    const takeSessionId = this.sessionId;
+    this.transition({ isProcessing: true });
+
+    try {
+      // Where the take was recorded from on the base's timeline
+      const takeStartMs = base.punchIn
+        ? base.punchIn.at * 1000
+        : base.recordingTimeMs;
+      const takeBytes = this.state.recordedBytes - base.recordedBytes;
+      const takeMarkers = this.state.markers.slice(base.markers.length);
+      const takeTimeline = this.state.timeline.slice(base.timeline.length);
+
+      let blob: Blob;
+      let durationMs: number;
+      let takeShiftMs: number;
+      // What happens to the base after the take's start point
+      let baseShiftMs: number | null = 0;
+
+      if (base.punchIn) {
+        const spliced = await spliceAudio(
+          base.blob,
+          take,
+          base.punchIn.at,
+          base.punchIn.mode
+        );
+        blob = spliced.blob;
+        durationMs = spliced.durationMs;
+        takeShiftMs = spliced.takeOffsetMs - takeStartMs;
+        baseShiftMs =
+          base.punchIn.mode === 'insert' ? spliced.takeDurationMs : null;
+      } else {
+        const merged = await mergeAudioBlobs([base.blob, take]);
+        blob = merged.blob;
+        durationMs = merged.durationMs;
+        takeShiftMs = merged.offsetsMs[1] - takeStartMs;
+      }
+      if (generation !== this.generation) return;
+
+      const markers = [
+        ...realign(
+          base.markers,
+          (m) => m.timeMs,
+          (m, timeMs) => ({ ...m, timeMs }),
+          takeStartMs,
+          baseShiftMs
+        ),
+        ...takeMarkers.map((m) => ({
+          ...m,
+          timeMs: Math.round(m.timeMs + takeShiftMs),
+        })),
+      ].sort((a, b) => a.timeMs - b.timeMs);
+      const timeline = [
+        ...realign(
+          base.timeline,
+          (segment) => segment.audioOffsetMs,
+          (segment, audioOffsetMs) => ({ ...segment, audioOffsetMs }),
+          takeStartMs,
+          baseShiftMs
+        ),
+        ...takeTimeline.map((segment) => ({
+          ...segment,
+          audioOffsetMs: Math.round(segment.audioOffsetMs + takeShiftMs),
+        })),
+      ];
+      const recordedBytes =
+        keptBytes(
+          base.recordedBytes,
+          base.recordingTimeMs,
+          baseShiftMs === null ? takeStartMs : base.recordingTimeMs
+        ) + takeBytes;
+      this.clock.accumulatedMs = durationMs;
+
+      console.log('🔗 Take applied:', {
+        size: blob.size,
+        type: blob.type,
+        durationMs,
+        punchIn: base.punchIn,
+      });
+      this.pushHistory(base);
+      this.transition({
+        isProcessing: false,
+        recordingBlob: blob,
+        blobUrl: URL.createObjectURL(blob),
+        recordedBytes,
+        markers,
+        timeline,
+        ...this.getTimeUpdates(),
+      });
+
+      if (takeSessionId) this.finishSession(takeSessionId);
+      this.trimSilences();
+    } catch (error) {
+      console.error('❌ Failed to merge takes:', error);
+      if (generation !== this.generation) return;
+
+      // The take stays unfinished in IndexedDB, so it can still be recovered
+      this.restoreBase(base);
+      this.transition({
+        isProcessing: false,
+        recordingBlob: base.blob,
+        blobUrl: URL.createObjectURL(base.blob),
+        error: new RecorderError(
+          error instanceof Error ? error.message : 'Could not merge takes',
+          'MERGE_FAILED'
+        ),
+      });
+    }
+  }
+
+  // Clear everything
+  private teardown(discardSession: boolean) {
+    try {
+      console.log('🔄 Resetting resources');
+      this.generation++;
+      const recorder = this.state.mediaRecorder;
+      if (this.recorderCleanup) {
+        this.recorderCleanup();
+        this.recorderCleanup = null;
+      }
+      if (recorder) {
+        if (recorder.state !== 'inactive') {
+          recorder.stop();
+        }
+        recorder.stream.getTracks().forEach((track) => track.stop());
+      }
+
+      this.releaseInput();
+
+      if (this.state.blobUrl) {
+        URL.revokeObjectURL(this.state.blobUrl);
+      }
+
+      this.closeChunkSession('abort');
+      if (discardSession && this.sessionId) {
+        deleteRecordingSession(this.sessionId).catch((error) => {
+          console.error('Error deleting recording session:', error);
+        });
+      }
+      // A new recording leaves the previous one's upload alone
+      if (discardSession) this.endedChunkSession = null;
+      this.setSessionId(null);
+      this.chunkSeq = 0;
+      this.stopReason = 'user';
+      this.chunks = [];
+      this.clearTimer();
+      this.resetClock();
+
+      const { devices, selectedDeviceId, recoverableSessions } = this.state;
+      this.transition({
+        ...INITIAL_RECORDER_STATE,
+        devices,
+        selectedDeviceId,
+        recoverableSessions,
+        canUndo: this.history.length > 0,
+      });
+    } catch (error) {
+      console.error('Error during reset:', error);
+    }
+  }
+
+  // PCM chunks form one streamed WAV, its header is only right once complete
+  private buildBlob(recorder: RecorderEngine) {
+    if (recorder instanceof PcmRecorder) {
+      return finalizeStreamedWav(this.chunks, recorder.format);
+    }
+    return new Blob(this.chunks, { type: this.mimeType! });
+  }
+
+  private setupRecorder(recorder: RecorderEngine) {
+    let dataReceived = false;
+
+    const handlePause = () => {
+      // While appending, the preview stays on the recording being extended
+      if (this.base) {
+        this.transition({ status: 'paused' });
+        return;
+      }
+      const audioBlob = this.buildBlob(recorder);
+      if (this.state.blobUrl) {
+        URL.revokeObjectURL(this.state.blobUrl);
+      }
+      this.transition({
+        status: 'paused',
+        blobUrl: URL.createObjectURL(audioBlob),
+        recordingBlob: audioBlob,
+      });
+    };
+
+    const handleResume = () => {
+      this.transition({ status: 'recording' });
+    };
+
+    const handleDataAvailable = (event: Event) => {
+      const e = event as BlobEvent;
+      console.log('📊 Data available event:', {
+        size: e.data?.size,
+        type: e.data?.type,
+        timestamp: new Date().toISOString(),
+      });
+
+      if (e.data?.size > 0) {
+        dataReceived = true;
+        try {
+          const chunk = new Blob([e.data], { type: this.mimeType! });
+          if (chunk.size > 0) {
+            this.chunks.push(chunk);
+            this.persistChunk(chunk);
+            this.transition({
+              recordedBytes: this.state.recordedBytes + chunk.size,
+            });
+            this.checkLimits();
+            console.log('✅ Chunk added, total chunks:', this.chunks.length);
+          }
+        } catch (error) {
+          console.error('❌ Invalid chunk received:', error);
+        }
+      }
+    };
+
+    const handleStop = () => {
+      console.log('🛑 Stop event triggered', {
+        chunksLength: this.chunks.length,
+        dataReceived,
+      });
+
+      try {
+        if (!dataReceived) {
+          throw new RecorderError(
+            'No audio data was received during recording',
+            'NO_DATA'
+          );
+        }
+
+        if (this.chunks.length === 0) {
+          throw new RecorderError('No audio data recorded', 'NO_DATA');
+        }
+
+        const audioBlob = this.buildBlob(recorder);
+
+        if (audioBlob.size === 0) {
+          throw new RecorderError('Generated empty audio blob', 'NO_DATA');
+        }
+
+        console.log('✅ Audio blob created:', {
+          size: audioBlob.size,
+          type: audioBlob.type,
+        });
+
+        this.clearTimer();
+        this.markSegment(null);
+        if (this.state.blobUrl) {
+          URL.revokeObjectURL(this.state.blobUrl);
+        }
+
+        recorder.stream.getTracks().forEach((track) => track.stop());
+        this.releaseInput();
+        this.closeChunkSession('end');
+
+        this.transition({
+          status: 'stopped',
+          error: null,
+          limitWarning: null,
+          stopReason: this.stopReason,
+          isSpeaking: false,
+          autoPaused: false,
+          inputLevel: null,
+          inputWarnings: [],
+          interruption: null,
+        });
+
+        const base = this.base;
+        this.base = null;
+        if (base) {
+          this.applyTake(base, audioBlob);
+          return;
+        }
+
+        this.publishRecording(audioBlob);
+      } catch (error) {
+        console.error('❌ Error in stop handler:', error);
+        this.handleError(error);
+      }
+    };
+
+    const handleError = (error: Event) => {
+      console.error('❌ Recorder error:', error);
+      this.handleError(error);
+    };
+
+    recorder.addEventListener('dataavailable', handleDataAvailable);
+    recorder.addEventListener('stop', handleStop);
+    recorder.addEventListener('pause', handlePause);
+    recorder.addEventListener('resume', handleResume);
+    recorder.addEventListener('error', handleError);
+
+    return () => {
+      recorder.removeEventListener('dataavailable', handleDataAvailable);
+      recorder.removeEventListener('stop', handleStop);
+      recorder.removeEventListener('pause', handlePause);
+      recorder.removeEventListener('resume', handleResume);
+      recorder.removeEventListener('error', handleError);
+    };
+  }
+
+  async startRecording(options: StartRecordingOptions = {}): Promise<void> {
+    const { status, recordingBlob, isProcessing } = this.state;
+    if (isProcessing) return;
+
+    const version =
+      status === 'stopped' && recordingBlob ? this.captureVersion() : null;
+    this.base =
+      version && (options.append || options.punchIn)
+        ? { ...version, punchIn: options.punchIn ?? null }
+        : null;
+    return this.start();
+  }
+
+  private async start(retryCount = 0): Promise<void> {
+    try {
+      console.log('🎙️ Starting recording attempt:', retryCount);
+
+      if (this.state.mediaRecorder?.state === 'recording') {
+        console.log('⚠️ Recorder already recording, stopping first...');
+        this.stopRecording();
+      }
+      if (this.base) {
+        // The base session is finished already, only the live state goes
+        this.teardown(false);
+        this.restoreBase(this.base);
+        // Takes recorded into the base are timed from the punch-in point
+        if (this.base.punchIn) {
+          this.clock.accumulatedMs = this.base.punchIn.at * 1000;
+          this.transition(this.getTimeUpdates());
+        }
+      } else {
+        this.history = [];
+        this.teardown(true);
+      }
+
+      // Created before any await so it is still inside the user gesture
+      const context = new window.AudioContext();
+      this.input.context = context;
+
+      const deviceId = resolveDeviceId(
+        this.state.devices,
+        this.state.selectedDeviceId
+      );
+
+      console.log('🎤 Requesting media stream...');
+      const stream = await navigator.mediaDevices
+        .getUserMedia(getAudioConstraints(deviceId))
+        .catch((error) => {
+          console.error('❌ Failed to get media stream:', error);
+          throw error;
+        });
+
+      if (!stream?.active) {
+        console.error('❌ Stream is inactive');
+        throw new RecorderError(
+          'Obtained inactive media stream',
+          'DEVICE_BUSY'
+        );
+      }
+
+      console.log('✅ Stream obtained:', {
+        tracks: stream.getTracks().map((t) => ({
+          kind: t.kind,
+          enabled: t.enabled,
+          muted: t.muted,
+          readyState: t.readyState,
+        })),
+      });
+
+      this.input.stream = stream;
+      this.watchStream(stream);
+      this.transition({ currentDeviceLabel: getStreamDeviceLabel(stream) });
+      // Labels are only exposed once permission has been granted
+      this.refreshDevices();
+
+      await context.resume();
+      context.addEventListener('statechange', this.handleContextStateChange);
+      const source = context.createMediaStreamSource(stream);
+      const destination = context.createMediaStreamDestination();
+      source.connect(destination);
+      this.input.source = source;
+      this.input.destination = destination;
+      this.startInputMonitor(context, destination.stream);
+
+      const { recorder, mimeType } = this.createEngine(
+        context,
+        destination.stream
+      );
+      this.mimeType = mimeType;
+
+      if (recorder.state === 'inactive') {
+        const cleanup = this.setupRecorder(recorder);
+        this.recorderCleanup = cleanup;
+
+        const replacedSession = this.base ? this.endedChunkSession : null;
+        if (replacedSession) {
+          this.endedChunkSession = null;
+          this.emitChunkEvent({ type: 'abort', sessionId: replacedSession });
+        }
+
+        const sessionId = crypto.randomUUID();
+        this.setSessionId(sessionId);
+        this.chunkSeq = 0;
+        this.openChunkSession = sessionId;
+        createRecordingSession(sessionId, mimeType).catch((error) => {
+          console.error('❌ Failed to create recording session:', error);
+        });
+
+        try {
+          console.log('▶️ Starting recorder...');
+          recorder.start(RECORDER_OPTIONS.timeslice);
+          const now = performance.now();
+          const lastSegment = this.state.timeline.at(-1);
+          if (this.clock.sessionStart === null) {
+            this.clock.sessionStart = now - (lastSegment?.endMs ?? 0);
+          }
+          // The time between takes shows up as a pause
+          if (lastSegment?.endMs != null) {
+            this.markSegment(
+              'paused',
+              this.clock.sessionStart + lastSegment.endMs
+            );
+          }
+          this.markSegment('recording', now);
+          this.startTimer();
+          this.transition({
+            status: 'recording',
+            mediaRecorder: recorder,
+            recordingBlob: null,
+            error: null,
+          });
+          console.log('✅ Recorder started successfully');
+        } catch (error) {
+          console.error('❌ Failed to start recorder:', error);
+          cleanup();
+          throw error;
+        }
+      }
+    } catch (error) {
+      const recorderError = toRecorderError(error);
+      if (
+        isTransientRecorderError(recorderError) &&
+        retryCount < MAX_START_RETRIES
+      ) {
+        console.warn(
+          `⚠️ Recording failed, retrying... (${retryCount + 1}/${MAX_START_RETRIES})`
+        );
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        return this.start(retryCount + 1);
+      }
+      this.handleError(recorderError);
+    }
+  }
+
+  // MediaRecorder with the best supported type, unless lossless audio is
+  // wanted or no type works; then the PCM engine records WAV
+  private createEngine(
+    context: AudioContext,
+    stream: MediaStream
+  ): { recorder: RecorderEngine; mimeType: string } {
+    const mimeType = this.options.lossless ? null : getBestSupportedMimeType();
+
+    if (mimeType) {
+      console.log('📝 Using MIME type:', mimeType);
+      const recorder = new MediaRecorder(stream, {
+        mimeType,
+        audioBitsPerSecond: RECORDER_OPTIONS.audioBitsPerSecond,
+      });
+      console.log('🎙️ Recorder created:', {
+        state: recorder.state,
+        mimeType: recorder.mimeType,
+        audioBitsPerSecond: recorder.audioBitsPerSecond,
+      });
+      return { recorder, mimeType };
+    }
+
+    if (!PcmRecorder.isSupported()) {
+      console.error('❌ No recording engine available');
+      throw new RecorderError(
+        'Neither MediaRecorder nor AudioWorklet can record here',
+        'UNSUPPORTED_MIME'
+      );
+    }
+    const recorder = new PcmRecorder(context, stream, this.options.pcmFormat);
+    console.log('🎙️ PCM recorder created:', recorder.format);
+    return { recorder, mimeType: recorder.mimeType };
+  }
+
+  private stop(reason: RecordingStopReason) {
+    const recorder = this.state.mediaRecorder;
+    if (!recorder || recorder.state === 'inactive') return;
+    console.log('Stopping recorder:', reason);
+    this.stopReason = reason;
+    this.clearTimer();
+    this.markSegment(null);
+
+    recorder.stop();
+  }
+
+  stopRecording() {
+    this.stop('user');
+  }
+
+  // `auto` is set when voice-activity detection pauses, only then does
+  // speech resume the recording
+  private pauseRecorder(auto: boolean) {
+    const recorder = this.state.mediaRecorder;
+    if (recorder?.state !== 'recording') return;
+
+    recorder.pause();
+    this.clearTimer();
+    this.markSegment('paused');
+    this.transition({ status: 'paused', autoPaused: auto });
+  }
+
+  private resumeRecorder() {
+    const recorder = this.state.mediaRecorder;
+    if (recorder?.state !== 'paused') return;
+
+    recorder.resume();
+    this.markSegment('recording');
+    this.startTimer();
+    // The silence before resuming must not pause it again right away
+    this.inputMonitor?.resetSilence();
+    this.transition({ status: 'recording', autoPaused: false });
+  }
+
+  private runPauseResume(action: () => void) {
+    try {
+      action();
+    } catch (error) {
+      console.error('❌ Error during pause/resume:', error);
+      this.handleError(error);
+    }
+  }
+
+  togglePauseResume() {
+    const recorder = this.state.mediaRecorder;
+    if (!recorder || recorder.state === 'inactive') return;
+    if (this.state.interruption) {
+      this.resumeAfterInterruption();
+      return;
+    }
+
+    this.runPauseResume(() => {
+      if (recorder.state === 'paused') {
+        console.log('▶️ Resuming recorder...');
+        this.resumeRecorder();
+      } else if (recorder.state === 'recording') {
+        console.log('⏸️ Pausing recorder...');
+        this.pauseRecorder(false);
+      }
+    });
+  }
+
+  // Marks the current point of the recording; while paused that is where
+  // the next take will resume
+  addMarker(label?: string): RecordingMarker | null {
+    if (!this.isActive()) return null;
+    return this.pushMarker(label ?? null);
+  }
+
+  private pushMarker(label: string | null, interruption?: InterruptionCause) {
+    const marker: RecordingMarker = {
+      id: crypto.randomUUID(),
+      label,
+      timeMs: Math.round(this.getRecordingTimeMs()),
+      ...(interruption && { interruption }),
+    };
+    console.log('🔖 Marker added:', marker);
+    this.transition({ markers: [...this.state.markers, marker] });
+    return marker;
+  }
+
+  // Continues the same take and session on a new stream from the selected
+  // microphone. Must run from a user gesture, a suspended context only
+  // resumes from one.
+  async resumeAfterInterruption() {
+    if (!this.state.interruption || !this.isActive()) return;
+
+    try {
+      await this.input.context?.resume();
+      await this.switchInput(
+        resolveDeviceId(this.state.devices, this.state.selectedDeviceId)
+      );
+      // The call or the other app may still hold the microphone
+      const live = this.input.stream
+        ?.getAudioTracks()
+        .some((track) => track.readyState === 'live' && !track.muted);
+      if (!live) {
+        throw new RecorderError(
+          'The new microphone track is not live',
+          'TRACK_ENDED'
+        );
+      }
+      console.log('▶️ Resuming after interruption');
+      this.transition({ interruption: null, error: null });
+      this.runPauseResume(() => this.resumeRecorder());
+    } catch (error) {
+      console.error('❌ Could not resume after interruption:', error);
+      this.transition({ error: toRecorderError(error) });
+    }
+  }
+
+  // Release everything and discard the persisted session
+  reset() {
+    this.base = null;
+    this.history = [];
+    this.teardown(true);
+  }
+
+  // Goes back to the recording as it was before the last take or edit was
+  // applied
+  undoEdit() {
+    const version = this.history.at(-1);
+    if (!version || this.state.status !== 'stopped' || this.state.isProcessing)
+      return;
+
+    this.history = this.history.slice(0, -1);
+    if (this.state.blobUrl) {
+      URL.revokeObjectURL(this.state.blobUrl);
+    }
+    this.restoreBase(version);
+    this.transition({
+      recordingBlob: version.blob,
+      blobUrl: URL.createObjectURL(version.blob),
+      canUndo: this.history.length > 0,
+      error: null,
+    });
+  }
+
+  // Renders the recording without the cut ranges, in seconds. The previous
+  // version goes to the history, so undoEdit() brings it back.
+  async applyEdits(cuts: AudioRange[]) {
+    const version = this.captureVersion();
+    const { status, isProcessing } = this.state;
+    if (!version || status !== 'stopped' || isProcessing || !cuts.length)
+      return;
+
+    const generation = this.generation;
+    this.transition({ isProcessing: true, error: null });
+    try {
+      const { blob, durationMs } = await renderEdits(version.blob, cuts);
+      if (generation !== this.generation) return;
+
+      const sorted = normalizeCuts(cuts, Infinity);
+      const mapMs = (timeMs: number) =>
+        Math.round(mapThroughCuts(timeMs / 1000, sorted) * 1000);
+      const markers = version.markers
+        .filter((m) => !isCut(m.timeMs / 1000, sorted))
+        .map((m) => ({ ...m, timeMs: mapMs(m.timeMs) }));
+      const timeline = version.timeline.map((segment) => ({
+        ...segment,
+        audioOffsetMs: mapMs(segment.audioOffsetMs),
+      }));
+      this.clock.accumulatedMs = durationMs;
+
+      console.log('✂️ Edits applied:', {
+        size: blob.size,
+        durationMs,
+        cuts: sorted.length,
+      });
+      this.pushHistory(version);
+      if (this.state.blobUrl) {
+        URL.revokeObjectURL(this.state.blobUrl);
+      }
+      this.transition({
+        isProcessing: false,
+        recordingBlob: blob,
+        blobUrl: URL.createObjectURL(blob),
+        recordedBytes: keptBytes(
+          version.recordedBytes,
+          version.recordingTimeMs,
+          durationMs
+        ),
+        markers,
+        timeline,
+        ...this.getTimeUpdates(),
+      });
+    } catch (error) {
+      console.error('❌ Failed to apply edits:', error);
+      if (generation !== this.generation) return;
+      this.transition({
+        isProcessing: false,
+        error: new RecorderError(
+          error instanceof Error ? error.message : 'Could not apply the edits',
+          'EDIT_FAILED'
+        ),
+      });
+    }
+  }
+
+  selectDevice(deviceId: string) {
+    this.transition({ selectedDeviceId: deviceId });
+    storeDeviceId(deviceId);
+
+    if (this.isActive()) {
+      this.switchInput(deviceId).catch((error) => {
+        console.error('❌ Failed to switch microphone:', error);
+      });
+    }
+  }
+
+  private dropRecoverableSession(sessionId: string) {
+    this.transition({
+      recoverableSessions: this.state.recoverableSessions.filter(
+        (s) => s.id !== sessionId
+      ),
+    });
+  }
+
+  async recoverSession(sessionId: string) {
+    try {
+      if (await this.isSessionLive(sessionId)) {
+        console.log('🔒 Session is being recorded elsewhere:', sessionId);
+        this.dropRecoverableSession(sessionId);
+        return;
+      }
+      const storedBlob = await loadRecordingSessionBlob(sessionId);
+      if (!storedBlob || storedBlob.size === 0) {
+        throw new RecorderError(
+          'No audio data found for the recording session',
+          'NO_DATA'
+        );
+      }
+
+      const audioBlob = await repairStoredBlob(storedBlob);
+      this.reset();
+      // Adopt the session so releasing the recording also deletes it
+      this.setSessionId(sessionId);
+      this.finishSession(sessionId);
+
+      console.log('♻️ Recovered session:', {
+        sessionId,
+        size: audioBlob.size,
+        type: audioBlob.type,
+      });
+      this.transition({
+        status: 'stopped',
+        recordingBlob: audioBlob,
+        blobUrl: URL.createObjectURL(audioBlob),
+        recordedBytes: audioBlob.size,
+        recoverableSessions: this.state.recoverableSessions.filter(
+          (s) => s.id !== sessionId
+        ),
+      });
+    } catch (error) {
+      console.error('❌ Failed to recover session:', error);
+      this.handleError(error);
+    }
+  }
+
+  // Brings in an existing file as if it had just been recorded. A rejected
+  // file leaves the current recording as it was.
+  async importAudio(file: Blob) {
+    const { status, isProcessing } = this.state;
+    if (isProcessing || status === 'recording' || status === 'paused') return;
+
+    const generation = this.generation;
+    this.transition({ isProcessing: true, error: null });
+    try {
+      const { blob, mimeType, durationMs } = await validateAudioFile(file, {
+        maxSizeBytes: this.options.maxSizeBytes ?? DEFAULT_MAX_IMPORT_BYTES,
+        maxDurationSeconds: this.options.maxDurationSeconds,
+      });
+      const audioBlob = await fixWebmBlob(blob);
+      if (generation !== this.generation) return;
+
+      this.reset();
+      this.mimeType = mimeType;
+      this.clock.accumulatedMs = durationMs;
+      console.log('📂 Imported file:', {
+        size: audioBlob.size,
+        type: audioBlob.type,
+        durationMs,
+      });
+      this.transition({
+        status: 'stopped',
+        recordingBlob: audioBlob,
+        blobUrl: URL.createObjectURL(audioBlob),
+        recordedBytes: file.size,
+        timeline: [
+          {
+            type: 'recording',
+            startMs: 0,
+            endMs: durationMs,
+            audioOffsetMs: 0,
+          },
+        ],
+        ...this.getTimeUpdates(),
+      });
+    } catch (error) {
+      console.error('❌ Failed to import file:', error);
+      if (generation !== this.generation) return;
+      this.transition({
+        isProcessing: false,
+        error:
+          error instanceof AudioFileError
+            ? new RecorderError(error.message, FILE_ERROR_CODES[error.code])
+            : toRecorderError(error),
+      });
+    }
+  }
+
+  async discardSession(sessionId: string) {
+    this.dropRecoverableSession(sessionId);
+    try {
+      if (await this.isSessionLive(sessionId)) return;
+      await deleteRecordingSession(sessionId);
+    } catch (error) {
+      console.error('Error deleting recording session:', error);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  DEFAULT_SPEECH_THRESHOLD_DB,
+  levelDb,
+} from '@/lib/audio/voiceActivity';
+
+export interface InputLevels {
+  // dBFS, floored at METER_FLOOR_DB
+  rmsDb: number;
+  peakDb: number;
+  // A sample reached full scale within the last CLIPPING_HOLD_MS
+  isClipping: boolean;
+  // Nothing but digital silence for NO_SIGNAL_MS, e.g. a mic muted in
+  // hardware
+  hasNoSignal: boolean;
+}
+
+export interface InputMonitorOptions {
+  speechThresholdDb?: number;
+  // Speech keeps counting this long after the level drops, so the gaps
+  // between words are not reported as silence
+  hangoverMs?: number;
+}
+
+export interface InputMonitorHandlers {
+  onLevels: (levels: InputLevels) => void;
+  onSpeechChange: (isSpeaking: boolean) => void;
+}
+
+export const METER_FLOOR_DB = -90;
+const POLL_INTERVAL_MS = 50;
+const DEFAULT_HANGOVER_MS = 400;
+// Just below full scale, encoders and resampling rarely reach 1 exactly
+const CLIPPING_LEVEL = 0.99;
+const CLIPPING_HOLD_MS = 2000;
+// Even a quiet room with noise suppression stays above this
+const NO_SIGNAL_DB = -85;
+const NO_SIGNAL_MS = 5000;
+
+// Listens to a live stream for levels and speech. It runs on its own source
+// node, so it keeps listening while the recorder is paused.
+export class InputMonitor {
+  private source: MediaStreamAudioSourceNode;
+  private analyser: AnalyserNode;
+  private samples: Float32Array;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private lastSpeechAt: number | null = null;
+  private lastClipAt: number | null = null;
+  private lastSignalAt = 0;
+  private speaking = false;
+
+  constructor(
+    context: AudioContext,
+    stream: MediaStream,
+    private handlers: InputMonitorHandlers,
+    private options: InputMonitorOptions = {}
+  ) {
+    this.source = context.createMediaStreamSource(stream);
+    this.analyser = context.createAnalyser();
+    this.analyser.fftSize = 2048;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    this.source.connect(this.analyser);
+  }
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  // Time since speech was last heard, counted from start() if it never was
+  getSilenceMs(now = performance.now()) {
+    if (this.speaking || this.lastSpeechAt === null) return 0;
+    return now - this.lastSpeechAt;
+  }
+
+  start() {
+    if (this.intervalId !== null) return;
+    this.resetSilence();
+    this.lastSignalAt = performance.now();
+    this.intervalId = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  // Counts the current silence from now on
+  resetSilence() {
+    if (!this.speaking) this.lastSpeechAt = performance.now();
+  }
+
+  private poll() {
+    const {
+      speechThresholdDb = DEFAULT_SPEECH_THRESHOLD_DB,
+      hangoverMs = DEFAULT_HANGOVER_MS,
+    } = this.options;
+    const now = performance.now();
+
+    this.analyser.getFloatTimeDomainData(this.samples);
+    let peak = 0;
+    for (let i = 0; i < this.samples.length; i++) {
+      peak = Math.max(peak, Math.abs(this.samples[i]));
+    }
+    const rmsDb = Math.max(METER_FLOOR_DB, levelDb(this.samples));
+    const peakDb = Math.max(METER_FLOOR_DB, 20 * Math.log10(peak));
+    if (peak >= CLIPPING_LEVEL) this.lastClipAt = now;
+    if (peakDb > NO_SIGNAL_DB) this.lastSignalAt = now;
+
+    this.handlers.onLevels({
+      rmsDb: Math.round(rmsDb),
+      peakDb: Math.round(peakDb),
+      isClipping:
+        this.lastClipAt !== null && now - this.lastClipAt < CLIPPING_HOLD_MS,
+      hasNoSignal: now - this.lastSignalAt >= NO_SIGNAL_MS,
+    });
+
+    if (rmsDb >= speechThresholdDb) {
+      this.lastSpeechAt = now;
+      this.setSpeaking(true);
+    } else if (this.speaking && now - this.lastSpeechAt! >= hangoverMs) {
+      this.setSpeaking(false);
+    }
+  }
+
+  private setSpeaking(speaking: boolean) {
+    if (speaking === this.speaking) return;
+    this.speaking = speaking;
+    this.handlers.onSpeechChange(speaking);
+  }
+
+  dispose() {
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.source.disconnect();
+    this.analyser.disconnect();
+  }
+}
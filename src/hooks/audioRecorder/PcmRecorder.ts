@@ -0,0 +1,362 @@
+import {
+  STREAMING_DATA_LENGTH,
+  createWavHeader,
+  encodePcm,
+  type WavBitDepth,
+  type WavFormat,
+} from '@/lib/audio/wav';
+
+// Records raw PCM with an AudioWorklet and encodes WAV itself. It mirrors the
+// parts of MediaRecorder that AudioRecorder uses, so both engines are driven
+// the same way: start(timeslice), pause, resume, stop and the same events.
+// Chunks form one streamed WAV file whose header carries placeholder sizes,
+// see finalizeStreamedWav.
+
+export interface PcmRecorderOptions {
+  sampleRate?: number;
+  bitDepth?: WavBitDepth;
+  channels?: 1 | 2;
+}
+
+// What AudioRecorder needs from either engine
+export interface RecorderEngine extends EventTarget {
+  readonly state: RecordingState;
+  readonly stream: MediaStream;
+  readonly mimeType: string;
+  start(timeslice?: number): void;
+  stop(): void;
+  pause(): void;
+  resume(): void;
+}
+
+// Speech only needs 8 kHz of bandwidth, so a low rate keeps WAV notes small
+export const DEFAULT_PCM_FORMAT: WavFormat = {
+  sampleRate: 16000,
+  bitDepth: 16,
+  channels: 1,
+};
+
+const PROCESSOR_NAME = 'pcm-capture';
+const FLUSH_TIMEOUT_MS = 500;
+
+// Loaded from a blob URL so the worklet ships with this module. It batches
+// the 128-frame render quanta to keep the message rate low.
+const WORKLET_SOURCE = `
+const BATCH_FRAMES = 4096;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.batch = [];
+    this.frames = 0;
+    this.capturing = true;
+    this.active = true;
+    this.port.onmessage = (event) => {
+      if (event.data === 'flush' || event.data === 'pause') {
+        this.flush();
+        this.capturing = event.data === 'flush';
+        this.port.postMessage({ type: 'flushed' });
+      } else if (event.data === 'resume') {
+        this.capturing = true;
+      } else if (event.data === 'close') {
+        this.active = false;
+      }
+    };
+  }
+
+  flush() {
+    if (this.frames === 0) return;
+    const channelCount = this.batch[0].length;
+    const channels = [];
+    for (let c = 0; c < channelCount; c++) {
+      const data = new Float32Array(this.frames);
+      let offset = 0;
+      for (const block of this.batch) {
+        data.set(block[c] || block[0], offset);
+        offset += block[0].length;
+      }
+      channels.push(data);
+    }
+    this.port.postMessage(
+      { type: 'samples', channels },
+      channels.map((data) => data.buffer)
+    );
+    this.batch = [];
+    this.frames = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (this.capturing && input && input.length > 0) {
+      this.batch.push(input.map((channel) => channel.slice()));
+      this.frames += input[0].length;
+      if (this.frames >= BATCH_FRAMES) this.flush();
+    }
+    return this.active;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+// Converts between the context rate and the target rate across batches.
+// Downsampling averages the input under each output sample, which keeps
+// speech from aliasing badly without a full filter.
+class StreamResampler {
+  private carry = new Float32Array(0);
+  private position = 0;
+
+  constructor(private ratio: number) {}
+
+  process(input: Float32Array): Float32Array {
+    if (this.ratio === 1) return input;
+
+    const data = new Float32Array(this.carry.length + input.length);
+    data.set(this.carry);
+    data.set(input, this.carry.length);
+
+    const output: number[] = [];
+    let start = this.position;
+    if (this.ratio > 1) {
+      while (start + this.ratio <= data.length) {
+        const from = Math.floor(start);
+        const to = Math.max(Math.floor(start + this.ratio), from + 1);
+        let sum = 0;
+        for (let i = from; i < to; i++) sum += data[i];
+        output.push(sum / (to - from));
+        start += this.ratio;
+      }
+    } else {
+      while (start + 1 < data.length) {
+        const index = Math.floor(start);
+        const fraction = start - index;
+        output.push(data[index] + (data[index + 1] - data[index]) * fraction);
+        start += this.ratio;
+      }
+    }
+
+    const consumed = Math.floor(start);
+    this.carry = data.slice(consumed);
+    this.position = start - consumed;
+    return Float32Array.from(output);
+  }
+}
+
+export class PcmRecorder extends EventTarget implements RecorderEngine {
+  readonly mimeType = 'audio/wav';
+  readonly format: WavFormat;
+  state: RecordingState = 'inactive';
+
+  private node: AudioWorkletNode | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private sink: GainNode | null = null;
+  private ready: Promise<void> | null = null;
+  private resamplers: StreamResampler[] = [];
+  private pending: Float32Array[][] = [];
+  private headerSent = false;
+  private sliceTimerId: ReturnType<typeof setInterval> | null = null;
+  private flushWaiters: (() => void)[] = [];
+
+  static isSupported() {
+    return (
+      typeof window !== 'undefined' &&
+      typeof window.AudioWorkletNode !== 'undefined'
+    );
+  }
+
+  // The context is the caller's, so it can be created inside the user gesture
+  constructor(
+    private context: AudioContext,
+    readonly stream: MediaStream,
+    options: PcmRecorderOptions = {}
+  ) {
+    super();
+    this.format = { ...DEFAULT_PCM_FORMAT, ...options };
+  }
+
+  get bytesPerSecond() {
+    const { sampleRate, channels, bitDepth } = this.format;
+    return sampleRate * channels * (bitDepth / 8);
+  }
+
+  start(timeslice?: number) {
+    if (this.state !== 'inactive') {
+      throw new DOMException(
+        'The recorder is not inactive',
+        'InvalidStateError'
+      );
+    }
+    this.state = 'recording';
+    this.headerSent = false;
+    this.pending = [];
+    const ratio = this.context.sampleRate / this.format.sampleRate;
+    this.resamplers = Array.from(
+      { length: this.format.channels },
+      () => new StreamResampler(ratio)
+    );
+
+    this.ready = this.setup().catch((error) => {
+      console.error('❌ PCM recorder setup failed:', error);
+      this.release();
+      this.state = 'inactive';
+      this.dispatchEvent(new ErrorEvent('error', { error }));
+      throw error;
+    });
+    this.ready
+      .then(() => {
+        this.dispatchEvent(new Event('start'));
+        if (timeslice && this.state !== 'inactive') {
+          this.sliceTimerId = setInterval(() => this.emitChunk(), timeslice);
+        }
+      })
+      .catch(() => {});
+  }
+
+  private async setup() {
+    const url = URL.createObjectURL(
+      new Blob([WORKLET_SOURCE], { type: 'application/javascript' })
+    );
+    try {
+      await this.context.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+
+    const node = new AudioWorkletNode(this.context, PROCESSOR_NAME, {
+      numberOfOutputs: 1,
+    });
+    node.port.onmessage = (event) => this.handleMessage(event.data);
+    const source = this.context.createMediaStreamSource(this.stream);
+    // Some engines only run process() for nodes the destination pulls from,
+    // so the node feeds it through a muted gain
+    const sink = this.context.createGain();
+    sink.gain.value = 0;
+    source.connect(node).connect(sink).connect(this.context.destination);
+    this.node = node;
+    this.source = source;
+    this.sink = sink;
+  }
+
+  private handleMessage(
+    message: { type: 'samples'; channels: Float32Array[] } | { type: 'flushed' }
+  ) {
+    if (message.type === 'flushed') {
+      this.flushWaiters.shift()?.();
+      return;
+    }
+
+    const { channels } = message;
+    const mono =
+      this.format.channels === 1 && channels.length > 1
+        ? channels[0].map(
+            (_, i) =>
+              channels.reduce((sum, channel) => sum + channel[i], 0) /
+              channels.length
+          )
+        : null;
+    const frames = this.resamplers.map((resampler, c) =>
+      resampler.process(mono ?? channels[c] ?? channels[0])
+    );
+    this.pending.push(frames);
+  }
+
+  private emitChunk() {
+    if (this.pending.length === 0) return;
+
+    const channels = Array.from({ length: this.format.channels }, (_, c) => {
+      const parts = this.pending.map((frames) => frames[c]);
+      const data = new Float32Array(
+        parts.reduce((length, part) => length + part.length, 0)
+      );
+      let offset = 0;
+      for (const part of parts) {
+        data.set(part, offset);
+        offset += part.length;
+      }
+      return data;
+    });
+    this.pending = [];
+    if (channels[0].length === 0) return;
+
+    const parts: ArrayBuffer[] = [];
+    if (!this.headerSent) {
+      parts.push(createWavHeader(this.format, STREAMING_DATA_LENGTH));
+      this.headerSent = true;
+    }
+    parts.push(encodePcm(channels, this.format.bitDepth));
+    const data = new Blob(parts, { type: this.mimeType });
+    this.dispatchEvent(new BlobEvent('dataavailable', { data }));
+  }
+
+  // Commands wait for the worklet to load and run in the order they were
+  // given. Resolves once the worklet handed over what it had batched.
+  private async flushWorklet(command: 'flush' | 'pause') {
+    await this.ready;
+    const node = this.node;
+    if (!node) return;
+
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timeoutId);
+        resolve();
+      };
+      const timeoutId = setTimeout(() => {
+        this.flushWaiters = this.flushWaiters.filter((w) => w !== done);
+        resolve();
+      }, FLUSH_TIMEOUT_MS);
+      this.flushWaiters.push(done);
+      node.port.postMessage(command);
+    });
+  }
+
+  pause() {
+    if (this.state !== 'recording') return;
+    this.state = 'paused';
+    this.flushWorklet('pause')
+      .then(() => {
+        this.emitChunk();
+        this.dispatchEvent(new Event('pause'));
+      })
+      .catch(() => {});
+  }
+
+  resume() {
+    if (this.state !== 'paused') return;
+    this.state = 'recording';
+    this.ready
+      ?.then(() => {
+        this.node?.port.postMessage('resume');
+        this.dispatchEvent(new Event('resume'));
+      })
+      .catch(() => {});
+  }
+
+  stop() {
+    if (this.state === 'inactive') return;
+    this.state = 'inactive';
+    if (this.sliceTimerId !== null) {
+      clearInterval(this.sliceTimerId);
+      this.sliceTimerId = null;
+    }
+    this.flushWorklet('flush')
+      .then(() => {
+        this.emitChunk();
+        this.release();
+        this.dispatchEvent(new Event('stop'));
+      })
+      .catch(() => {});
+  }
+
+  private release() {
+    this.source?.disconnect();
+    this.source = null;
+    this.sink?.disconnect();
+    this.sink = null;
+    if (this.node) {
+      this.node.port.postMessage('close');
+      this.node.port.onmessage = null;
+      this.node.disconnect();
+      this.node = null;
+    }
+  }
+}
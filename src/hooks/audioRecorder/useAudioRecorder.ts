@@ -0,0 +1,91 @@
+'use client';
+
+// useAudioRecorder.ts
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+
+import {
+  AudioRecorder,
+  INITIAL_RECORDER_STATE,
+  type AudioRecorderOptions,
+  type RecorderChunkEvent,
+  type StartRecordingOptions,
+} from '@/hooks/audioRecorder/AudioRecorder';
+import type { AudioRange } from '@/lib/audio/editAudio';
+
+const getServerSnapshot = () => INITIAL_RECORDER_STATE;
+
+export const useAudioRecorder = (options: AudioRecorderOptions = {}) => {
+  // Each hook call owns its recorder, so several can run side by side
+  const [recorder] = useState(() => new AudioRecorder(options));
+
+  const subscribe = useCallback(
+    (callback: () => void) => recorder.subscribe(callback),
+    [recorder]
+  );
+  const getSnapshot = useCallback(() => recorder.getSnapshot(), [recorder]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  useEffect(() => {
+    recorder.setOptions(options);
+  });
+
+  useEffect(() => {
+    recorder.init();
+    return () => {
+      recorder.dispose();
+    };
+  }, [recorder]);
+
+  return {
+    ...state,
+    audioUrl: state.blobUrl,
+    isPaused: state.status === 'paused',
+    isRecording: state.status === 'recording',
+    isStopped: state.status === 'stopped',
+    startRecording: useCallback(
+      (startOptions?: StartRecordingOptions) =>
+        recorder.startRecording(startOptions),
+      [recorder]
+    ),
+    stopRecording: useCallback(() => recorder.stopRecording(), [recorder]),
+    togglePauseResume: useCallback(
+      () => recorder.togglePauseResume(),
+      [recorder]
+    ),
+    addMarker: useCallback(
+      (label?: string) => recorder.addMarker(label),
+      [recorder]
+    ),
+    subscribeChunks: useCallback(
+      (listener: (event: RecorderChunkEvent) => void) =>
+        recorder.subscribeChunks(listener),
+      [recorder]
+    ),
+    resumeAfterInterruption: useCallback(
+      () => recorder.resumeAfterInterruption(),
+      [recorder]
+    ),
+    undoEdit: useCallback(() => recorder.undoEdit(), [recorder]),
+    applyEdits: useCallback(
+      (cuts: AudioRange[]) => recorder.applyEdits(cuts),
+      [recorder]
+    ),
+    releaseResources: useCallback(() => recorder.reset(), [recorder]),
+    selectDevice: useCallback(
+      (deviceId: string) => recorder.selectDevice(deviceId),
+      [recorder]
+    ),
+    recoverSession: useCallback(
+      (sessionId: string) => recorder.recoverSession(sessionId),
+      [recorder]
+    ),
+    discardSession: useCallback(
+      (sessionId: string) => recorder.discardSession(sessionId),
+      [recorder]
+    ),
+    importAudio: useCallback(
+      (file: Blob) => recorder.importAudio(file),
+      [recorder]
+    ),
+  };
+};
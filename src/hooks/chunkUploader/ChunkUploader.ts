@@ -0,0 +1,409 @@
+import type { RecorderChunkEvent } from '@/hooks/audioRecorder/AudioRecorder';
+
+// Resumable upload protocol, relative to the configured endpoint:
+//   POST   {endpoint}                          { sessionId, mimeType }
+//   GET    {endpoint}/{sessionId}              -> { received: number[], finalized: boolean }
+//   PUT    {endpoint}/{sessionId}/chunks/{seq} raw chunk bytes
+//   POST   {endpoint}/{sessionId}/finalize     { chunkCount }
+//   DELETE {endpoint}/{sessionId}              drops an aborted session
+// All calls are idempotent, so any of them can be retried safely.
+
+export type ChunkUploadStatus =
+  'idle' | 'uploading' | 'retrying' | 'offline' | 'done' | 'error';
+
+export interface ChunkUploaderState {
+  status: ChunkUploadStatus;
+  pendingChunks: number;
+  uploadedChunks: number;
+  lastFinalizedSessionId: string | null;
+  error: ChunkUploadError | null;
+}
+
+export interface ChunkUploaderOptions {
+  endpoint: string;
+  // Attempts per request before giving up until the next retry() or reconnect
+  maxRetries?: number;
+  baseRetryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  requestTimeoutMs?: number;
+}
+
+export class ChunkUploadError extends Error {
+  constructor(
+    message: string,
+    public code: 'HTTP_ERROR' | 'NETWORK_ERROR',
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'ChunkUploadError';
+  }
+}
+
+interface UploadSession {
+  id: string;
+  mimeType: string | null;
+  created: boolean;
+  // Set after a failure, the server is asked what it already has
+  needsSync: boolean;
+  pending: Map<number, Blob>;
+  // Known once the recorder ended the take
+  chunkCount: number | null;
+  // The take was thrown away or replaced, the server copy is deleted
+  aborted: boolean;
+}
+
+export const INITIAL_UPLOADER_STATE: ChunkUploaderState = Object.freeze({
+  status: 'idle',
+  pendingChunks: 0,
+  uploadedChunks: 0,
+  lastFinalizedSessionId: null,
+  error: null,
+});
+
+const DEFAULTS = {
+  maxRetries: 6,
+  baseRetryDelayMs: 500,
+  maxRetryDelayMs: 30000,
+  requestTimeoutMs: 30000,
+};
+
+const isRetryableStatus = (status: number) =>
+  status === 408 || status === 429 || status >= 500;
+
+// ChunkUploader.ts
+export class ChunkUploader {
+  private state: ChunkUploaderState = INITIAL_UPLOADER_STATE;
+  private subscribers = new Set<() => void>();
+  private options: Required<ChunkUploaderOptions>;
+  private sessions = new Map<string, UploadSession>();
+  private running = false;
+  private disposed = false;
+  private wakeUp: (() => void) | null = null;
+
+  constructor(options: ChunkUploaderOptions) {
+    this.options = { ...DEFAULTS, ...options };
+  }
+
+  private notify() {
+    this.subscribers.forEach((cb) => {
+      cb();
+    });
+  }
+
+  private transition(updates: Partial<ChunkUploaderState>) {
+    const changed = (Object.keys(updates) as (keyof ChunkUploaderState)[]).some(
+      (key) => updates[key] !== this.state[key]
+    );
+    if (!changed) return;
+
+    this.state = { ...this.state, ...updates };
+    this.notify();
+  }
+
+  getSnapshot(): ChunkUploaderState {
+    return this.state;
+  }
+
+  subscribe(callback: () => void) {
+    this.subscribers.add(callback);
+    return () => {
+      this.subscribers.delete(callback);
+    };
+  }
+
+  setEndpoint(endpoint: string) {
+    this.options.endpoint = endpoint;
+  }
+
+  private getSession(id: string) {
+    let session = this.sessions.get(id);
+    if (!session) {
+      session = {
+        id,
+        mimeType: null,
+        created: false,
+        needsSync: false,
+        pending: new Map(),
+        chunkCount: null,
+        aborted: false,
+      };
+      this.sessions.set(id, session);
+    }
+    return session;
+  }
+
+  private countPending() {
+    let count = 0;
+    this.sessions.forEach((session) => {
+      count += session.pending.size;
+    });
+    return count;
+  }
+
+  handleChunkEvent(event: RecorderChunkEvent) {
+    if (this.disposed) return;
+
+    if (event.type === 'abort') {
+      // Also sent for takes that finished uploading, so the session is
+      // looked up anew and deleted whether or not the server has it
+      const session = this.getSession(event.sessionId);
+      session.aborted = true;
+      session.pending.clear();
+      session.chunkCount = null;
+    } else if (event.type === 'chunk') {
+      const session = this.getSession(event.sessionId);
+      session.mimeType = event.mimeType;
+      session.pending.set(event.seq, event.blob);
+    } else {
+      const session = this.getSession(event.sessionId);
+      session.mimeType = event.mimeType;
+      session.chunkCount = event.chunkCount;
+    }
+
+    this.transition({ pendingChunks: this.countPending() });
+    this.run();
+  }
+
+  // Picks up again after the retries for a request ran out
+  retry() {
+    this.sessions.forEach((session) => {
+      session.needsSync = true;
+    });
+    this.run();
+  }
+
+  init() {
+    this.disposed = false;
+    window.addEventListener('online', this.handleOnline);
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.sessions.clear();
+    this.wakeUp?.();
+    window.removeEventListener('online', this.handleOnline);
+  }
+
+  // After being offline the server may have received requests whose
+  // response never arrived, so every session is synced first
+  private handleOnline = () => {
+    this.sessions.forEach((session) => {
+      session.needsSync = true;
+    });
+    this.wakeUp?.();
+    this.run();
+  };
+
+  private waitForRetry(delayMs: number) {
+    return new Promise<void>((resolve) => {
+      const timeoutId = setTimeout(done, delayMs);
+      function done() {
+        clearTimeout(timeoutId);
+        resolve();
+      }
+      this.wakeUp = done;
+    }).finally(() => {
+      this.wakeUp = null;
+    });
+  }
+
+  private waitForOnline() {
+    return new Promise<void>((resolve) => {
+      this.wakeUp = resolve;
+    }).finally(() => {
+      this.wakeUp = null;
+    });
+  }
+
+  private async request(path: string, init: RequestInit) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      this.options.requestTimeoutMs
+    );
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.options.endpoint}${path}`, {
+        ...init,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw new ChunkUploadError(
+        error instanceof Error ? error.message : 'Network error',
+        'NETWORK_ERROR'
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!response.ok) {
+      throw new ChunkUploadError(
+        `Upload request failed with status ${response.status}`,
+        'HTTP_ERROR',
+        response.status
+      );
+    }
+    return response;
+  }
+
+  // Performs the next request for a session; false once it is finished
+  private async step(session: UploadSession): Promise<boolean> {
+    const base = `/${encodeURIComponent(session.id)}`;
+
+    if (session.aborted) {
+      try {
+        await this.request(base, { method: 'DELETE' });
+      } catch (error) {
+        // Never created or already gone
+        if (!(error instanceof ChunkUploadError && error.status === 404)) {
+          throw error;
+        }
+      }
+      console.log('🗑️ Upload discarded:', session.id);
+      return false;
+    }
+
+    if (!session.created) {
+      await this.request('', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId: session.id,
+          mimeType: session.mimeType,
+        }),
+      });
+      session.created = true;
+      return true;
+    }
+
+    if (session.needsSync) {
+      const response = await this.request(base, { method: 'GET' });
+      const { received, finalized } = (await response.json()) as {
+        received: number[];
+        finalized: boolean;
+      };
+      received.forEach((seq) => session.pending.delete(seq));
+      session.needsSync = false;
+      if (finalized) return false;
+      return true;
+    }
+
+    const nextSeq = Math.min(...Array.from(session.pending.keys()));
+    if (Number.isFinite(nextSeq)) {
+      const blob = session.pending.get(nextSeq)!;
+      await this.request(`${base}/chunks/${nextSeq}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: blob,
+      });
+      session.pending.delete(nextSeq);
+      this.transition({
+        pendingChunks: this.countPending(),
+        uploadedChunks: this.state.uploadedChunks + 1,
+      });
+      return true;
+    }
+
+    if (session.chunkCount !== null) {
+      await this.request(`${base}/finalize`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chunkCount: session.chunkCount }),
+      });
+      console.log('📤 Upload finalized:', session.id);
+      this.transition({ lastFinalizedSessionId: session.id });
+      return false;
+    }
+
+    // Waiting for more chunks from the recorder
+    return false;
+  }
+
+  private nextSession() {
+    return Array.from(this.sessions.values()).find(
+      (session) =>
+        session.aborted ||
+        !session.created ||
+        session.needsSync ||
+        session.pending.size > 0 ||
+        session.chunkCount !== null
+    );
+  }
+
+  private async run() {
+    if (this.running) return;
+    this.running = true;
+    let attempt = 0;
+
+    try {
+      let session = this.nextSession();
+      while (session && !this.disposed) {
+        if (typeof navigator !== 'undefined' && !navigator.onLine) {
+          this.transition({ status: 'offline' });
+          await this.waitForOnline();
+          continue;
+        }
+
+        this.transition({ status: 'uploading', error: null });
+        try {
+          // An abort arriving during a request is only handled by the next
+          // step, the session has to stay until then
+          const wasAborted = session.aborted;
+          const more = await this.step(session);
+          attempt = 0;
+          const finished =
+            wasAborted || (!session.aborted && session.chunkCount !== null);
+          if (!more && finished) {
+            this.sessions.delete(session.id);
+          }
+        } catch (error) {
+          const uploadError =
+            error instanceof ChunkUploadError
+              ? error
+              : new ChunkUploadError('Unknown upload error', 'NETWORK_ERROR');
+          const retryable =
+            uploadError.code === 'NETWORK_ERROR' ||
+            isRetryableStatus(uploadError.status ?? 0);
+
+          if (!retryable) {
+            console.error('❌ Upload rejected, dropping session:', uploadError);
+            this.sessions.delete(session.id);
+            this.transition({
+              status: 'error',
+              error: uploadError,
+              pendingChunks: this.countPending(),
+            });
+          } else if (attempt >= this.options.maxRetries) {
+            console.error('❌ Upload retries exhausted:', uploadError);
+            session.needsSync = true;
+            this.transition({ status: 'error', error: uploadError });
+            return;
+          } else {
+            const delay = Math.min(
+              this.options.baseRetryDelayMs * 2 ** attempt,
+              this.options.maxRetryDelayMs
+            );
+            attempt++;
+            console.warn(`⚠️ Upload failed, retrying in ${delay}ms`);
+            session.needsSync = session.created;
+            this.transition({ status: 'retrying', error: uploadError });
+            // Jitter keeps many clients from retrying in lockstep
+            await this.waitForRetry(delay * (0.5 + Math.random() / 2));
+          }
+        }
+
+        // Sessions that only wait for more chunks are skipped
+        session = this.nextSession();
+      }
+
+      if (this.state.status !== 'error') {
+        this.transition({
+          status: this.state.lastFinalizedSessionId ? 'done' : 'idle',
+        });
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,53 @@
+'use client';
+
+// useChunkUploader.ts
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+
+import type { RecorderChunkEvent } from '@/hooks/audioRecorder/AudioRecorder';
+import {
+  ChunkUploader,
+  INITIAL_UPLOADER_STATE,
+} from '@/hooks/chunkUploader/ChunkUploader';
+
+type SubscribeChunks = (
+  listener: (event: RecorderChunkEvent) => void
+) => () => void;
+
+const getServerSnapshot = () => INITIAL_UPLOADER_STATE;
+
+// Streams the chunks of a recorder to the endpoint while it records. Without
+// an endpoint nothing is uploaded and the state stays idle.
+export const useChunkUploader = (
+  endpoint: string | undefined,
+  subscribeChunks: SubscribeChunks
+) => {
+  const [uploader] = useState(
+    () => new ChunkUploader({ endpoint: endpoint ?? '' })
+  );
+
+  const subscribe = useCallback(
+    (callback: () => void) => uploader.subscribe(callback),
+    [uploader]
+  );
+  const getSnapshot = useCallback(() => uploader.getSnapshot(), [uploader]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  useEffect(() => {
+    if (!endpoint) return;
+
+    uploader.setEndpoint(endpoint);
+    uploader.init();
+    const unsubscribe = subscribeChunks((event) =>
+      uploader.handleChunkEvent(event)
+    );
+    return () => {
+      unsubscribe();
+      uploader.dispose();
+    };
+  }, [uploader, endpoint, subscribeChunks]);
+
+  return {
+    ...state,
+    retryUpload: useCallback(() => uploader.retry(), [uploader]),
+  };
+};
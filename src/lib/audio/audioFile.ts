@@ -0,0 +1,109 @@
+import { type SupportedMimeType } from '@/hooks/audioConst';
+import { decodeAudioBlob } from '@/lib/audio/decodeAudio';
+
+// Checks for files picked or dropped by the user. The extension and the
+// browser-reported type are not trusted, the content decides.
+
+export type AudioFileErrorCode =
+  'EMPTY' | 'TOO_LARGE' | 'TOO_LONG' | 'UNSUPPORTED' | 'UNDECODABLE';
+
+export class AudioFileError extends Error {
+  constructor(
+    message: string,
+    public code: AudioFileErrorCode
+  ) {
+    super(message);
+    this.name = 'AudioFileError';
+  }
+}
+
+export interface AudioFileLimits {
+  maxSizeBytes?: number;
+  maxDurationSeconds?: number;
+}
+
+export interface ValidatedAudioFile {
+  // The file, typed with its sniffed MIME type
+  blob: Blob;
+  mimeType: SupportedMimeType;
+  durationMs: number;
+}
+
+const SNIFF_BYTES = 16;
+// Only used to measure and prove decodability, a low rate keeps the
+// decoded copy of a long file small
+const VALIDATION_SAMPLE_RATE = 8000;
+
+const matches = (bytes: Uint8Array, offset: number, signature: string) =>
+  signature
+    .split('')
+    .every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+// MPEG audio frame sync: 11 set bits and a layer other than "reserved"
+const isMpegFrame = (bytes: Uint8Array) =>
+  bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0 && (bytes[1] & 0x06) !== 0;
+
+export function sniffAudioMimeType(
+  bytes: Uint8Array
+): SupportedMimeType | null {
+  if (matches(bytes, 0, 'RIFF') && matches(bytes, 8, 'WAVE')) {
+    return 'audio/wav';
+  }
+  if (
+    bytes[0] === 0x1a &&
+    bytes[1] === 0x45 &&
+    bytes[2] === 0xdf &&
+    bytes[3] === 0xa3
+  ) {
+    return 'audio/webm';
+  }
+  if (matches(bytes, 4, 'ftyp')) return 'audio/mp4';
+  if (matches(bytes, 0, 'fLaC')) return 'audio/flac';
+  if (matches(bytes, 0, 'ID3') || isMpegFrame(bytes)) return 'audio/mpeg';
+  return null;
+}
+
+export async function validateAudioFile(
+  file: Blob,
+  limits: AudioFileLimits = {}
+): Promise<ValidatedAudioFile> {
+  const { maxSizeBytes, maxDurationSeconds } = limits;
+
+  if (file.size === 0) {
+    throw new AudioFileError('The file is empty', 'EMPTY');
+  }
+  if (maxSizeBytes && file.size > maxSizeBytes) {
+    throw new AudioFileError(
+      `The file is ${file.size} bytes, the limit is ${maxSizeBytes}`,
+      'TOO_LARGE'
+    );
+  }
+
+  const header = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const mimeType = sniffAudioMimeType(header);
+  if (!mimeType) {
+    throw new AudioFileError('Unrecognized audio format', 'UNSUPPORTED');
+  }
+
+  let durationMs: number;
+  try {
+    const buffer = await decodeAudioBlob(file, VALIDATION_SAMPLE_RATE);
+    durationMs = Math.round(buffer.duration * 1000);
+  } catch (error) {
+    throw new AudioFileError(
+      error instanceof Error ? error.message : 'Could not decode the file',
+      'UNDECODABLE'
+    );
+  }
+  if (durationMs === 0) {
+    throw new AudioFileError('The file contains no audio', 'EMPTY');
+  }
+  if (maxDurationSeconds && durationMs > maxDurationSeconds * 1000) {
+    throw new AudioFileError(
+      `The file lasts ${durationMs} ms, the limit is ${maxDurationSeconds} s`,
+      'TOO_LONG'
+    );
+  }
+
+  return { blob: file.slice(0, file.size, mimeType), mimeType, durationMs };
+}
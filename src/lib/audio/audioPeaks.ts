@@ -0,0 +1,74 @@
+import { decodeAudioBlob } from '@/lib/audio/decodeAudio';
+import type { WaveformPeaks } from '@/lib/audio/peaks';
+import type {
+  PeaksWorkerRequest,
+  PeaksWorkerResponse,
+} from '@/lib/audio/peaks.worker';
+import { runAudioWorker } from '@/lib/audio/runAudioWorker';
+
+// Recordings are cached by their Blob, which stays the same however often
+// it is published under a new URL, and remote audio by its URL. An hour of
+// audio takes about 1.4 MB.
+export type PeaksKey = string | Blob;
+
+const MAX_CACHED_URLS = 20;
+const peaksByUrl = new Map<string, WaveformPeaks>();
+const peaksByBlob = new WeakMap<Blob, WaveformPeaks>();
+// Peaks need a few hundred samples a second, a file too long to decode at
+// full rate still fits at this one
+const FILE_SAMPLE_RATE = 8000;
+
+const remember = (key: PeaksKey, peaks: WaveformPeaks) => {
+  if (key instanceof Blob) {
+    peaksByBlob.set(key, peaks);
+    return;
+  }
+  peaksByUrl.delete(key);
+  peaksByUrl.set(key, peaks);
+  if (peaksByUrl.size > MAX_CACHED_URLS) {
+    peaksByUrl.delete(peaksByUrl.keys().next().value!);
+  }
+};
+
+export function getCachedPeaks(key: PeaksKey): WaveformPeaks | null {
+  const cached =
+    key instanceof Blob ? peaksByBlob.get(key) : peaksByUrl.get(key);
+  if (cached) remember(key, cached);
+  return cached ?? null;
+}
+
+// Peaks computed in a worker unless already cached under `key`. A Blob
+// source, for audio that is streamed rather than decoded, is decoded at a
+// low rate first.
+export async function getAudioPeaks(
+  key: PeaksKey,
+  source: AudioBuffer | Blob,
+  signal?: AbortSignal
+): Promise<WaveformPeaks> {
+  const cached = getCachedPeaks(key);
+  if (cached) return cached;
+  signal?.throwIfAborted();
+
+  const buffer =
+    source instanceof Blob
+      ? await decodeAudioBlob(source, FILE_SAMPLE_RATE)
+      : source;
+  signal?.throwIfAborted();
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+    buffer.getChannelData(c).slice()
+  );
+  const request: PeaksWorkerRequest = {
+    channels,
+    sampleRate: buffer.sampleRate,
+  };
+
+  const { peaks } = await runAudioWorker<PeaksWorkerResponse>(
+    () => new Worker(new URL('./peaks.worker.ts', import.meta.url)),
+    request,
+    channels.map((channel) => channel.buffer),
+    signal
+  );
+  remember(key, peaks);
+  return peaks;
+}
@@ -0,0 +1,39 @@
+// Decoding outside of a live AudioContext, so nothing is played or needs a
+// user gesture. The result is resampled to `sampleRate`.
+export async function decodeAudioBlob(
+  blob: Blob,
+  sampleRate = 48000
+): Promise<AudioBuffer> {
+  const arrayBuffer = await blob.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  return context.decodeAudioData(arrayBuffer);
+}
+
+// Averages every `step`th channel from `first`, e.g. stereo down to mono
+const mixChannels = (buffer: AudioBuffer, first: number, step: number) => {
+  const mixed = new Float32Array(buffer.length);
+  let count = 0;
+  for (let c = first; c < buffer.numberOfChannels; c += step) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < mixed.length; i++) mixed[i] += data[i];
+    count++;
+  }
+  for (let i = 0; i < mixed.length; i++) mixed[i] /= count;
+  return mixed;
+};
+
+export function getChannels(
+  buffer: AudioBuffer,
+  channelCount = buffer.numberOfChannels
+): Float32Array[] {
+  const sourceCount = buffer.numberOfChannels;
+  if (channelCount < sourceCount) {
+    return Array.from({ length: channelCount }, (_, i) =>
+      mixChannels(buffer, i, channelCount)
+    );
+  }
+  return Array.from({ length: channelCount }, (_, i) =>
+    // Mono sources are duplicated when more channels are requested
+    buffer.getChannelData(Math.min(i, sourceCount - 1))
+  );
+}
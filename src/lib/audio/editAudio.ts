@@ -0,0 +1,112 @@
+import { decodeAudioBlob } from '@/lib/audio/decodeAudio';
+import { getRenderFormat, scheduleSegment } from '@/lib/audio/renderAudio';
+
+// Non-destructive edits: the recording stays as it is and a list of cut
+// ranges, in seconds of the original, says what is left out.
+
+export interface AudioRange {
+  start: number;
+  end: number;
+}
+
+export interface EditedAudio {
+  blob: Blob;
+  durationMs: number;
+}
+
+// Anything shorter is a click on the waveform, not a cut
+const MIN_CUT_SECONDS = 0.01;
+
+// Sorted, clamped to the audio and with overlapping or touching cuts merged
+export function normalizeCuts(
+  cuts: AudioRange[],
+  duration: number
+): AudioRange[] {
+  const sorted = cuts
+    .map(({ start, end }) => ({
+      start: Math.max(0, Math.min(start, end)),
+      end: Math.min(duration, Math.max(start, end)),
+    }))
+    .filter(({ start, end }) => end - start >= MIN_CUT_SECONDS)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: AudioRange[] = [];
+  for (const cut of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && cut.start <= last.end) {
+      last.end = Math.max(last.end, cut.end);
+    } else {
+      merged.push(cut);
+    }
+  }
+  return merged;
+}
+
+// The complement of normalized cuts: what is heard once they are removed
+export function getKeptRanges(
+  cuts: AudioRange[],
+  duration: number
+): AudioRange[] {
+  const kept: AudioRange[] = [];
+  let start = 0;
+  for (const cut of cuts) {
+    if (cut.start > start) kept.push({ start, end: cut.start });
+    start = Math.max(start, cut.end);
+  }
+  if (duration > start) kept.push({ start, end: duration });
+  return kept;
+}
+
+export const isCut = (time: number, cuts: AudioRange[]) =>
+  cuts.some(({ start, end }) => time >= start && time < end);
+
+// Where a time of the original lands once the cuts are removed. Times
+// inside a cut land where that cut was.
+export function mapThroughCuts(time: number, cuts: AudioRange[]): number {
+  let removed = 0;
+  for (const { start, end } of cuts) {
+    if (time <= start) break;
+    removed += Math.min(time, end) - start;
+  }
+  return time - removed;
+}
+
+export function getEditedDuration(cuts: AudioRange[], duration: number) {
+  return mapThroughCuts(duration, cuts);
+}
+
+// Renders what is kept, each kept range joined to the next with short
+// fades. See getRenderFormat for what it is stored as.
+export async function renderEdits(
+  blob: Blob,
+  cuts: AudioRange[]
+): Promise<EditedAudio> {
+  const { sampleRate, encode } = await getRenderFormat([blob]);
+  const buffer = await decodeAudioBlob(blob, sampleRate);
+  const kept = getKeptRanges(
+    normalizeCuts(cuts, buffer.duration),
+    buffer.duration
+  );
+  const duration = kept.reduce(
+    (total, { start, end }) => total + end - start,
+    0
+  );
+  if (duration <= 0) throw new Error('Nothing is left after the cuts');
+
+  const context = new OfflineAudioContext(
+    buffer.numberOfChannels,
+    Math.ceil(duration * sampleRate),
+    sampleRate
+  );
+  let when = 0;
+  for (const { start, end } of kept) {
+    scheduleSegment(context, buffer, when, start, end - start);
+    when += end - start;
+  }
+
+  const rendered = await context.startRendering();
+  return {
+    blob: await encode(rendered),
+    durationMs: rendered.duration * 1000,
+  };
+}
@@ -0,0 +1,74 @@
+import { encodeFlac, type FlacBitDepth } from '@/lib/audio/flac';
+import { encodeMp3 } from '@/lib/audio/mp3';
+import { encodePcm, createWavHeader, type WavBitDepth } from '@/lib/audio/wav';
+
+export type EncodeWorkerRequest = {
+  channels: Float32Array[];
+  sampleRate: number;
+} & (
+  | { format: 'wav'; bitDepth: WavBitDepth }
+  | { format: 'flac'; bitDepth: FlacBitDepth }
+  | { format: 'mp3'; bitrateKbps: number }
+);
+
+export type EncodeWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; parts: Uint8Array[] }
+  | { type: 'error'; message: string };
+
+const send = (response: EncodeWorkerResponse, transfer: Transferable[] = []) =>
+  postMessage(response, { transfer });
+
+// Progress is only sent in steps of a percent
+let lastProgress = 0;
+const reportProgress = (progress: number) => {
+  if (progress - lastProgress < 0.01 && progress < 1) return;
+  lastProgress = progress;
+  send({ type: 'progress', progress });
+};
+
+const encode = (request: EncodeWorkerRequest): Uint8Array[] => {
+  const { channels, sampleRate } = request;
+  switch (request.format) {
+    case 'wav': {
+      const format = {
+        sampleRate,
+        channels: channels.length,
+        bitDepth: request.bitDepth,
+      };
+      const pcm = encodePcm(channels, request.bitDepth);
+      reportProgress(1);
+      return [
+        new Uint8Array(createWavHeader(format, pcm.byteLength)),
+        new Uint8Array(pcm),
+      ];
+    }
+    case 'flac':
+      return [
+        encodeFlac(channels, sampleRate, request.bitDepth, reportProgress),
+      ];
+    case 'mp3':
+      return encodeMp3(
+        channels,
+        sampleRate,
+        request.bitrateKbps,
+        reportProgress
+      );
+  }
+};
+
+addEventListener('message', (event: MessageEvent<EncodeWorkerRequest>) => {
+  lastProgress = 0;
+  try {
+    const parts = encode(event.data);
+    send(
+      { type: 'result', parts },
+      parts.map((part) => part.buffer)
+    );
+  } catch (error) {
+    send({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
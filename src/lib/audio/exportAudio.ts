@@ -0,0 +1,139 @@
+import {
+  generateFileName,
+  getMimeTypeFromExtension,
+  type SupportedFormats,
+  type SupportedMimeType,
+} from '@/hooks/audioConst';
+import { decodeAudioBlob, getChannels } from '@/lib/audio/decodeAudio';
+import type {
+  EncodeWorkerRequest,
+  EncodeWorkerResponse,
+} from '@/lib/audio/encodeAudio.worker';
+import { AudioWorkerError, runAudioWorker } from '@/lib/audio/runAudioWorker';
+
+export type ExportFormat = Extract<SupportedFormats, 'wav' | 'mp3' | 'flac'>;
+
+export interface ExportAudioOptions {
+  sampleRate?: number;
+  channels?: 1 | 2;
+  // WAV and FLAC only; FLAC supports 16 and 24
+  bitDepth?: 16 | 24;
+  // MP3 only
+  bitrateKbps?: number;
+  signal?: AbortSignal;
+  // From 0 to 1; decoding is the first tenth
+  onProgress?: (progress: number) => void;
+}
+
+export interface ExportedAudio {
+  blob: Blob;
+  fileName: string;
+  mimeType: SupportedMimeType;
+  durationMs: number;
+}
+
+export class AudioExportError extends Error {
+  constructor(
+    message: string,
+    public code: 'DECODE_FAILED' | 'ENCODE_FAILED'
+  ) {
+    super(message);
+    this.name = 'AudioExportError';
+  }
+}
+
+const DEFAULTS = {
+  sampleRate: 44100,
+  channels: 1,
+  bitDepth: 16,
+  bitrateKbps: 64,
+} as const;
+
+const DECODE_SHARE = 0.1;
+
+// Encodes in a worker. The channels are transferred to it, so they are
+// unusable afterwards.
+export async function encodeAudioChannels(
+  channels: Float32Array[],
+  sampleRate: number,
+  format: ExportFormat,
+  options: Pick<
+    ExportAudioOptions,
+    'bitDepth' | 'bitrateKbps' | 'signal' | 'onProgress'
+  > = {}
+): Promise<Blob> {
+  const base = { channels, sampleRate };
+  const request: EncodeWorkerRequest =
+    format === 'mp3'
+      ? {
+          ...base,
+          format,
+          bitrateKbps: options.bitrateKbps ?? DEFAULTS.bitrateKbps,
+        }
+      : { ...base, format, bitDepth: options.bitDepth ?? DEFAULTS.bitDepth };
+
+  try {
+    const { parts } = await runAudioWorker<EncodeWorkerResponse>(
+      () => new Worker(new URL('./encodeAudio.worker.ts', import.meta.url)),
+      request,
+      channels.map((channel) => channel.buffer),
+      options.signal,
+      options.onProgress
+    );
+    return new Blob(parts, { type: getMimeTypeFromExtension(format) });
+  } catch (error) {
+    if (!(error instanceof AudioWorkerError)) throw error;
+    throw new AudioExportError(error.message, 'ENCODE_FAILED');
+  }
+}
+
+// Decodes on the main thread, OfflineAudioContext is not available in
+// workers, and encodes in a worker. Aborting rejects with an AbortError.
+export async function exportAudio(
+  blob: Blob,
+  format: ExportFormat,
+  options: ExportAudioOptions = {}
+): Promise<ExportedAudio> {
+  const { signal, onProgress } = options;
+  const sampleRate = options.sampleRate ?? DEFAULTS.sampleRate;
+  const channelCount = options.channels ?? DEFAULTS.channels;
+  const mimeType = getMimeTypeFromExtension(format);
+
+  signal?.throwIfAborted();
+  onProgress?.(0);
+
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeAudioBlob(blob, sampleRate);
+  } catch (error) {
+    throw new AudioExportError(
+      error instanceof Error ? error.message : 'Could not decode the audio',
+      'DECODE_FAILED'
+    );
+  }
+  signal?.throwIfAborted();
+  onProgress?.(DECODE_SHARE);
+
+  const exported = await encodeAudioChannels(
+    // Copied, the AudioBuffer's own arrays cannot be transferred
+    getChannels(buffer, channelCount).map((channel) => channel.slice()),
+    sampleRate,
+    format,
+    {
+      ...options,
+      onProgress: (progress) =>
+        onProgress?.(DECODE_SHARE + progress * (1 - DECODE_SHARE)),
+    }
+  );
+  console.log('📦 Audio exported:', {
+    format,
+    size: exported.size,
+    durationMs: Math.round(buffer.duration * 1000),
+  });
+  return {
+    blob: exported,
+    fileName: generateFileName(mimeType),
+    mimeType,
+    durationMs: Math.round(buffer.duration * 1000),
+  };
+}
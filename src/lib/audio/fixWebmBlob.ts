@@ -0,0 +1,37 @@
+import type { WebmWorkerResponse } from '@/lib/audio/webm.worker';
+
+// Adds the duration and seek cues MediaRecorder leaves out of WebM files.
+// The rewrite runs in a worker; when it cannot be done the blob is returned
+// as it was, since it still plays in our own player.
+export async function fixWebmBlob(blob: Blob): Promise<Blob> {
+  if (!blob.type.startsWith('audio/webm') || typeof Worker === 'undefined') {
+    return blob;
+  }
+
+  let worker: Worker | null = null;
+  try {
+    // Inside the try, a CSP or a missing worker runtime can make this throw
+    const active = new Worker(new URL('./webm.worker.ts', import.meta.url));
+    worker = active;
+    const buffer = await blob.arrayBuffer();
+    const response = await new Promise<WebmWorkerResponse>(
+      (resolve, reject) => {
+        active.onmessage = (event: MessageEvent<WebmWorkerResponse>) =>
+          resolve(event.data);
+        active.onerror = (event) => reject(new Error(event.message));
+        active.postMessage(buffer, [buffer]);
+      }
+    );
+
+    if (response.type === 'error') throw new Error(response.message);
+    if (response.durationMs === null) return blob;
+
+    console.log('🩹 WebM fixed:', { durationMs: response.durationMs });
+    return new Blob([response.buffer], { type: blob.type });
+  } catch (error) {
+    console.warn('⚠️ Could not fix WebM, keeping it as recorded:', error);
+    return blob;
+  } finally {
+    worker?.terminate();
+  }
+}
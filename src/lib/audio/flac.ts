@@ -0,0 +1,271 @@
+// A small FLAC encoder: fixed-blocksize frames, fixed linear predictors of
+// order 0 to 4 and one Rice partition per subframe. That gets most of what
+// FLAC compresses on speech without an LPC search.
+
+export type FlacBitDepth = 16 | 24;
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_RICE_PARAMETER = 14;
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private accumulator = 0;
+  private bitCount = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    const grown = new Uint8Array(
+      Math.max(this.bytes.length * 2, this.length + extra)
+    );
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  // Up to 24 bits at a time keeps the accumulator within 32 bits
+  private writeSmall(value: number, bits: number) {
+    this.accumulator = (this.accumulator << bits) | (value & ((1 << bits) - 1));
+    this.bitCount += bits;
+    this.ensure(4);
+    while (this.bitCount >= 8) {
+      this.bitCount -= 8;
+      this.bytes[this.length++] = (this.accumulator >>> this.bitCount) & 0xff;
+    }
+    this.accumulator &= (1 << this.bitCount) - 1;
+  }
+
+  write(value: number, bits: number) {
+    if (bits > 24) {
+      this.writeSmall(Math.floor(value / 2 ** 24), bits - 24);
+      this.writeSmall(value % 2 ** 24, 24);
+    } else if (bits > 0) {
+      this.writeSmall(value, bits);
+    }
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeUnary(zeros: number) {
+    let rest = zeros;
+    while (rest >= 24) {
+      this.writeSmall(0, 24);
+      rest -= 24;
+    }
+    this.writeSmall(1, rest + 1);
+  }
+
+  alignToByte() {
+    if (this.bitCount > 0) this.writeSmall(0, 8 - this.bitCount);
+  }
+
+  get byteLength() {
+    return this.length;
+  }
+
+  // Only valid once aligned to a byte
+  bytesFrom(start: number) {
+    return this.bytes.subarray(start, this.length);
+  }
+
+  toUint8Array() {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc8 = i;
+  let crc16 = i << 8;
+  for (let bit = 0; bit < 8; bit++) {
+    crc8 = crc8 & 0x80 ? (crc8 << 1) ^ 0x07 : crc8 << 1;
+    crc16 = crc16 & 0x8000 ? (crc16 << 1) ^ 0x8005 : crc16 << 1;
+  }
+  CRC8_TABLE[i] = crc8 & 0xff;
+  CRC16_TABLE[i] = crc16 & 0xffff;
+}
+
+const crc8 = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+};
+
+const crc16 = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+  }
+  return crc;
+};
+
+// Frame numbers use the UTF-8 style variable-length coding
+const writeFrameNumber = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  // The first byte holds as many leading ones as the coding has bytes
+  let length = 2;
+  while (value >= 2 ** (7 - length + 6 * (length - 1))) length++;
+  const lead = (0xff << (8 - length)) & 0xff;
+  writer.write(lead | Math.floor(value / 2 ** (6 * (length - 1))), 8);
+  for (let i = length - 2; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+};
+
+const quantize = (channel: Float32Array, bitDepth: FlacBitDepth) => {
+  const max = 2 ** (bitDepth - 1);
+  const samples = new Int32Array(channel.length);
+  for (let i = 0; i < channel.length; i++) {
+    const sample = Math.max(-1, Math.min(1, channel[i]));
+    samples[i] = Math.round(sample < 0 ? sample * max : sample * (max - 1));
+  }
+  return samples;
+};
+
+// Residual of the fixed predictor of `order` for sample i >= order
+const fixedResidual = (s: Int32Array, i: number, order: number) => {
+  switch (order) {
+    case 0:
+      return s[i];
+    case 1:
+      return s[i] - s[i - 1];
+    case 2:
+      return s[i] - 2 * s[i - 1] + s[i - 2];
+    case 3:
+      return s[i] - 3 * s[i - 1] + 3 * s[i - 2] - s[i - 3];
+    default:
+      return s[i] - 4 * s[i - 1] + 6 * s[i - 2] - 4 * s[i - 3] + s[i - 4];
+  }
+};
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+const riceBits = (residuals: number[], parameter: number) => {
+  let bits = residuals.length * (parameter + 1);
+  for (const value of residuals) bits += Math.floor(value / 2 ** parameter);
+  return bits;
+};
+
+const writeSubframe = (
+  writer: BitWriter,
+  samples: Int32Array,
+  bitDepth: number
+) => {
+  const n = samples.length;
+  if (samples.every((sample) => sample === samples[0])) {
+    // Constant, e.g. digital silence
+    writer.write(0, 8);
+    writer.writeSigned(samples[0], bitDepth);
+    return;
+  }
+
+  let bestOrder = 0;
+  let bestSum = Infinity;
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, n - 1); order++) {
+    let sum = 0;
+    for (let i = order; i < n; i++)
+      sum += Math.abs(fixedResidual(samples, i, order));
+    if (sum < bestSum) {
+      bestSum = sum;
+      bestOrder = order;
+    }
+  }
+
+  const residuals: number[] = [];
+  for (let i = bestOrder; i < n; i++) {
+    residuals.push(zigzag(fixedResidual(samples, i, bestOrder)));
+  }
+
+  // Around log2 of the mean, checked against its neighbours
+  const mean =
+    residuals.reduce((sum, value) => sum + value, 0) / residuals.length;
+  const estimate = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+  let parameter = estimate;
+  let bestBits = Infinity;
+  for (let k = Math.max(0, estimate - 1); k <= estimate + 1; k++) {
+    const bits = riceBits(residuals, k);
+    if (bits < bestBits) {
+      bestBits = bits;
+      parameter = k;
+    }
+  }
+
+  if (parameter > MAX_RICE_PARAMETER || bestBits >= n * bitDepth) {
+    // Verbatim, noise does not compress
+    writer.write(0b10, 8);
+    for (let i = 0; i < n; i++) writer.writeSigned(samples[i], bitDepth);
+    return;
+  }
+
+  // Fixed predictor: type 001xxx with the order in the low bits
+  writer.write((0b001000 | bestOrder) << 1, 8);
+  for (let i = 0; i < bestOrder; i++) writer.writeSigned(samples[i], bitDepth);
+  // Rice coding with 4-bit parameters and a single partition
+  writer.write(0, 2);
+  writer.write(0, 4);
+  writer.write(parameter, 4);
+  for (const value of residuals) {
+    writer.writeUnary(Math.floor(value / 2 ** parameter));
+    writer.write(value % 2 ** parameter, parameter);
+  }
+};
+
+export function encodeFlac(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: FlacBitDepth = 16,
+  onProgress?: (progress: number) => void
+): Uint8Array {
+  const totalSamples = channels[0]?.length ?? 0;
+  const quantized = channels.map((channel) => quantize(channel, bitDepth));
+  const writer = new BitWriter();
+
+  // "fLaC" and the STREAMINFO block, flagged as the last metadata block
+  writer.write(0x664c6143, 32);
+  writer.write(0x80, 8);
+  writer.write(34, 24);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(0, 24);
+  writer.write(0, 24);
+  writer.write(sampleRate, 20);
+  writer.write(channels.length - 1, 3);
+  writer.write(bitDepth - 1, 5);
+  writer.write(totalSamples, 36);
+  // MD5 of the audio, left unset
+  for (let i = 0; i < 4; i++) writer.write(0, 32);
+
+  const frameCount = Math.ceil(totalSamples / BLOCK_SIZE);
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * BLOCK_SIZE;
+    const size = Math.min(BLOCK_SIZE, totalSamples - start);
+    const frameStart = writer.byteLength;
+
+    writer.write(0xfff8, 16);
+    // Block size in 16 bits after the header, rate from STREAMINFO
+    writer.write(0b0111, 4);
+    writer.write(0b0000, 4);
+    writer.write(channels.length - 1, 4);
+    writer.write(bitDepth === 16 ? 0b100 : 0b110, 3);
+    writer.write(0, 1);
+    writeFrameNumber(writer, frame);
+    writer.write(size - 1, 16);
+    writer.write(crc8(writer.bytesFrom(frameStart)), 8);
+
+    for (const samples of quantized) {
+      writeSubframe(writer, samples.subarray(start, start + size), bitDepth);
+    }
+    writer.alignToByte();
+    writer.write(crc16(writer.bytesFrom(frameStart)), 16);
+
+    onProgress?.((frame + 1) / frameCount);
+  }
+
+  return writer.toUint8Array();
+}
@@ -0,0 +1,111 @@
+// Integrated loudness as defined by ITU-R BS.1770: K-weighted mean square
+// over 400 ms blocks with 75% overlap, gated at -70 LUFS absolute and 10 LU
+// below the ungated level. Channels are weighted 1, as for mono and stereo.
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_OVERLAP = 0.75;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// The two K-weighting stages, recomputed for the sample rate
+const kWeighting = (sampleRate: number): Biquad[] => {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = 10 ** (3.999843853973347 / 20);
+  const vb = vh ** 0.4996667741545416;
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+
+  return [
+    {
+      b0: (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      b1: (2 * (shelfK * shelfK - vh)) / shelfA0,
+      b2: (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      a1: (2 * (shelfK * shelfK - 1)) / shelfA0,
+      a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    },
+    {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: (2 * (passK * passK - 1)) / passA0,
+      a2: (1 - passK / passQ + passK * passK) / passA0,
+    },
+  ];
+};
+
+const filter = (input: Float32Array, { b0, b1, b2, a1, a2 }: Biquad) => {
+  const output = new Float32Array(input.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    output[i] = y;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+  }
+  return output;
+};
+
+const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+
+// Returns -Infinity for silence or audio shorter than one block
+export function measureIntegratedLoudness(
+  channels: Float32Array[],
+  sampleRate: number
+): number {
+  const blockLength = Math.round(BLOCK_SECONDS * sampleRate);
+  const step = Math.round(blockLength * (1 - BLOCK_OVERLAP));
+  const length = channels[0]?.length ?? 0;
+  if (length < blockLength) return -Infinity;
+
+  const stages = kWeighting(sampleRate);
+  const weighted = channels.map((channel) =>
+    stages.reduce((signal, stage) => filter(signal, stage), channel)
+  );
+
+  // Block powers from per-step sums of squares, each block covers four steps
+  const stepCount = Math.floor(length / step);
+  const stepPower = new Float64Array(stepCount);
+  for (const signal of weighted) {
+    for (let s = 0; s < stepCount; s++) {
+      let sum = 0;
+      for (let i = s * step; i < (s + 1) * step; i++) sum += signal[i] ** 2;
+      stepPower[s] += sum;
+    }
+  }
+  const stepsPerBlock = Math.round(1 / (1 - BLOCK_OVERLAP));
+  const blocks: number[] = [];
+  for (let s = 0; s + stepsPerBlock <= stepCount; s++) {
+    let sum = 0;
+    for (let j = 0; j < stepsPerBlock; j++) sum += stepPower[s + j];
+    blocks.push(sum / (step * stepsPerBlock));
+  }
+
+  const gatedMean = (threshold: number) => {
+    const kept = blocks.filter((power) => toLufs(power) > threshold);
+    if (kept.length === 0) return null;
+    return kept.reduce((sum, power) => sum + power, 0) / kept.length;
+  };
+
+  const absolute = gatedMean(ABSOLUTE_GATE_LUFS);
+  if (absolute === null) return -Infinity;
+  const relative = gatedMean(toLufs(absolute) + RELATIVE_GATE_LU);
+  return relative === null ? -Infinity : toLufs(relative);
+}
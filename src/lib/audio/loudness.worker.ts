@@ -0,0 +1,26 @@
+import { measureIntegratedLoudness } from '@/lib/audio/loudness';
+
+export interface LoudnessWorkerRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export type LoudnessWorkerResponse =
+  { type: 'result'; lufs: number } | { type: 'error'; message: string };
+
+addEventListener('message', (event: MessageEvent<LoudnessWorkerRequest>) => {
+  const { channels, sampleRate } = event.data;
+  let response: LoudnessWorkerResponse;
+  try {
+    response = {
+      type: 'result',
+      lufs: measureIntegratedLoudness(channels, sampleRate),
+    };
+  } catch (error) {
+    response = {
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+  postMessage(response);
+});
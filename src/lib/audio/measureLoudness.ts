@@ -0,0 +1,30 @@
+import type {
+  LoudnessWorkerRequest,
+  LoudnessWorkerResponse,
+} from '@/lib/audio/loudness.worker';
+import { runAudioWorker } from '@/lib/audio/runAudioWorker';
+
+// Integrated loudness of the buffer in LUFS, measured in a worker.
+// -Infinity when the buffer is silent.
+export async function measureLoudness(
+  buffer: AudioBuffer,
+  signal?: AbortSignal
+): Promise<number> {
+  signal?.throwIfAborted();
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+    buffer.getChannelData(c).slice()
+  );
+  const request: LoudnessWorkerRequest = {
+    channels,
+    sampleRate: buffer.sampleRate,
+  };
+
+  const { lufs } = await runAudioWorker<LoudnessWorkerResponse>(
+    () => new Worker(new URL('./loudness.worker.ts', import.meta.url)),
+    request,
+    channels.map((channel) => channel.buffer),
+    signal
+  );
+  return lufs;
+}
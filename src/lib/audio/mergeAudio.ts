@@ -0,0 +1,111 @@
+import { decodeAudioBlob } from '@/lib/audio/decodeAudio';
+import { getRenderFormat, scheduleSegment } from '@/lib/audio/renderAudio';
+import {
+  createWavHeader,
+  isSameWavFormat,
+  readWavInfo,
+  type WavInfo,
+} from '@/lib/audio/wav';
+import { concatWebm, WebmParseError } from '@/lib/audio/webm';
+
+export interface MergedAudio {
+  blob: Blob;
+  // Where each input starts in the merged audio
+  offsetsMs: number[];
+  durationMs: number;
+}
+
+// WAV takes in the same format can simply be joined sample for sample
+const concatWavs = async (
+  blobs: Blob[],
+  infos: WavInfo[]
+): Promise<MergedAudio> => {
+  const { sampleRate, channels, bitDepth } = infos[0];
+  const bytesPerSecond = sampleRate * channels * (bitDepth / 8);
+
+  const offsetsMs: number[] = [];
+  let dataLength = 0;
+  const parts = blobs.map((blob, i) => {
+    offsetsMs.push((dataLength / bytesPerSecond) * 1000);
+    dataLength += infos[i].dataLength;
+    return blob.slice(
+      infos[i].dataOffset,
+      infos[i].dataOffset + infos[i].dataLength
+    );
+  });
+
+  const header = createWavHeader(
+    { sampleRate, channels, bitDepth },
+    dataLength
+  );
+  return {
+    blob: new Blob([header, ...parts], { type: 'audio/wav' }),
+    offsetsMs,
+    durationMs: (dataLength / bytesPerSecond) * 1000,
+  };
+};
+
+// WebM takes from the same recorder can be joined block for block
+const concatWebms = async (blobs: Blob[]): Promise<MergedAudio> => {
+  const { buffer, offsetsMs, durationMs } = concatWebm(
+    await Promise.all(blobs.map((blob) => blob.arrayBuffer()))
+  );
+  return {
+    blob: new Blob([buffer], { type: blobs[0].type }),
+    offsetsMs,
+    durationMs,
+  };
+};
+
+// Anything else, or a mix, is decoded and rendered one take after the
+// other. See getRenderFormat for what it is stored as.
+const reencode = async (blobs: Blob[]): Promise<MergedAudio> => {
+  const { sampleRate, encode } = await getRenderFormat(blobs);
+  const buffers = [];
+  for (const blob of blobs) {
+    buffers.push(await decodeAudioBlob(blob, sampleRate));
+  }
+
+  const duration = buffers.reduce((total, b) => total + b.duration, 0);
+  const context = new OfflineAudioContext(
+    Math.max(...buffers.map((b) => b.numberOfChannels)),
+    Math.ceil(duration * sampleRate),
+    sampleRate
+  );
+  const offsetsMs: number[] = [];
+  let position = 0;
+  for (const buffer of buffers) {
+    offsetsMs.push(position * 1000);
+    scheduleSegment(context, buffer, position, 0, buffer.duration);
+    position += buffer.duration;
+  }
+
+  const rendered = await context.startRendering();
+  return {
+    blob: await encode(rendered),
+    offsetsMs,
+    durationMs: rendered.duration * 1000,
+  };
+};
+
+export async function mergeAudioBlobs(blobs: Blob[]): Promise<MergedAudio> {
+  const headers = await Promise.all(blobs.map(readWavInfo));
+  const wavInfos = headers.filter((info): info is WavInfo => info !== null);
+
+  if (
+    wavInfos.length === blobs.length &&
+    wavInfos.every((info) => isSameWavFormat(info, wavInfos[0]))
+  ) {
+    return concatWavs(blobs, wavInfos);
+  }
+  if (blobs.every((blob) => blob.type.startsWith('audio/webm'))) {
+    try {
+      return await concatWebms(blobs);
+    } catch (error) {
+      if (!(error instanceof WebmParseError)) throw error;
+      console.warn('⚠️ Could not join the WebM takes, re-encoding:', error);
+    }
+  }
+
+  return reencode(blobs);
+}
@@ -0,0 +1,38 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+// lamejs takes 16-bit samples; it is fed a multiple of the MPEG frame size
+const SAMPLES_PER_BLOCK = 1152 * 20;
+
+const toInt16 = (channel: Float32Array, start: number, end: number) => {
+  const samples = new Int16Array(end - start);
+  for (let i = start; i < end; i++) {
+    const sample = Math.max(-1, Math.min(1, channel[i]));
+    samples[i - start] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return samples;
+};
+
+export function encodeMp3(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitrateKbps: number,
+  onProgress?: (progress: number) => void
+): Uint8Array[] {
+  const [left, right] = channels;
+  const encoder = new Mp3Encoder(channels.length, sampleRate, bitrateKbps);
+  const parts: Uint8Array[] = [];
+
+  for (let start = 0; start < left.length; start += SAMPLES_PER_BLOCK) {
+    const end = Math.min(start + SAMPLES_PER_BLOCK, left.length);
+    const encoded = encoder.encodeBuffer(
+      toInt16(left, start, end),
+      right ? toInt16(right, start, end) : undefined
+    );
+    if (encoded.length > 0) parts.push(encoded);
+    onProgress?.(end / left.length);
+  }
+
+  const last = encoder.flush();
+  if (last.length > 0) parts.push(last);
+  return parts;
+}
@@ -0,0 +1,53 @@
+// Waveform peaks: the largest absolute sample of every channel over fixed
+// windows. Enough resolution to zoom in on a few seconds of speech.
+
+export const PEAKS_PER_SECOND = 100;
+
+export interface WaveformPeaks {
+  peaksPerSecond: number;
+  // One value from 0 to 1 per window
+  peaks: Float32Array;
+}
+
+export function computePeaks(
+  channels: Float32Array[],
+  sampleRate: number,
+  peaksPerSecond = PEAKS_PER_SECOND
+): WaveformPeaks {
+  const length = channels[0]?.length ?? 0;
+  const window = sampleRate / peaksPerSecond;
+  const peaks = new Float32Array(Math.ceil(length / window));
+
+  for (let p = 0; p < peaks.length; p++) {
+    const from = Math.floor(p * window);
+    const to = Math.min(length, Math.floor((p + 1) * window));
+    let peak = 0;
+    for (const channel of channels) {
+      for (let i = from; i < to; i++) {
+        const value = Math.abs(channel[i]);
+        if (value > peak) peak = value;
+      }
+    }
+    peaks[p] = Math.min(1, peak);
+  }
+
+  return { peaksPerSecond, peaks };
+}
+
+// Largest peak between two positions in seconds, for drawing one bar
+export function peakBetween(
+  { peaksPerSecond, peaks }: WaveformPeaks,
+  start: number,
+  end: number
+) {
+  const from = Math.max(0, Math.floor(start * peaksPerSecond));
+  const to = Math.min(
+    peaks.length,
+    Math.max(from + 1, Math.ceil(end * peaksPerSecond))
+  );
+  let peak = 0;
+  for (let i = from; i < to; i++) {
+    if (peaks[i] > peak) peak = peaks[i];
+  }
+  return peak;
+}
@@ -0,0 +1,25 @@
+import { computePeaks, type WaveformPeaks } from '@/lib/audio/peaks';
+
+export interface PeaksWorkerRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export type PeaksWorkerResponse =
+  { type: 'result'; peaks: WaveformPeaks } | { type: 'error'; message: string };
+
+addEventListener('message', (event: MessageEvent<PeaksWorkerRequest>) => {
+  const { channels, sampleRate } = event.data;
+  let response: PeaksWorkerResponse;
+  try {
+    response = { type: 'result', peaks: computePeaks(channels, sampleRate) };
+  } catch (error) {
+    response = {
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+  postMessage(response, {
+    transfer: response.type === 'result' ? [response.peaks.peaks.buffer] : [],
+  });
+});
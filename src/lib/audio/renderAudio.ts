@@ -0,0 +1,63 @@
+import { getChannels } from '@/lib/audio/decodeAudio';
+import { encodeAudioChannels } from '@/lib/audio/exportAudio';
+import { encodeWav, readWavInfo } from '@/lib/audio/wav';
+
+// How rendered edits are stored: at the rate of the recording and in its
+// format where that can be written offline. WebM and MP4 only come out of
+// MediaRecorder, which records in real time, so they become MP3.
+export interface RenderFormat {
+  sampleRate: number;
+  encode: (rendered: AudioBuffer) => Promise<Blob>;
+}
+
+// Opus decodes at 48 kHz, and it is a rate MP3 supports
+const COMPRESSED_SAMPLE_RATE = 48000;
+// Short ramps at each edit point so the cut does not click
+const FADE_SECONDS = 0.005;
+
+export async function getRenderFormat(sources: Blob[]): Promise<RenderFormat> {
+  const wavInfos = await Promise.all(sources.map(readWavInfo));
+  const [first] = wavInfos;
+  if (first && wavInfos.every((info) => info !== null)) {
+    return {
+      sampleRate: first.sampleRate,
+      encode: async (rendered) =>
+        encodeWav(getChannels(rendered), rendered.sampleRate, first.bitDepth),
+    };
+  }
+
+  return {
+    sampleRate: COMPRESSED_SAMPLE_RATE,
+    encode: (rendered) =>
+      encodeAudioChannels(
+        getChannels(rendered, Math.min(2, rendered.numberOfChannels)).map(
+          (channel) => channel.slice()
+        ),
+        rendered.sampleRate,
+        'mp3'
+      ),
+  };
+}
+
+export const scheduleSegment = (
+  context: OfflineAudioContext,
+  buffer: AudioBuffer,
+  when: number,
+  offset: number,
+  duration: number
+) => {
+  if (duration <= 0) return;
+
+  const source = context.createBufferSource();
+  const gain = context.createGain();
+  source.buffer = buffer;
+  source.connect(gain).connect(context.destination);
+
+  const fade = Math.min(FADE_SECONDS, duration / 2);
+  gain.gain.setValueAtTime(0, when);
+  gain.gain.linearRampToValueAtTime(1, when + fade);
+  gain.gain.setValueAtTime(1, when + duration - fade);
+  gain.gain.linearRampToValueAtTime(0, when + duration);
+
+  source.start(when, offset, duration);
+};
@@ -0,0 +1,55 @@
+// The protocol every audio worker answers with. Results carry their own
+// fields next to `type`.
+export type AudioWorkerResponse =
+  | { type: 'result' }
+  | { type: 'progress'; progress: number }
+  | { type: 'error'; message: string };
+
+export class AudioWorkerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioWorkerError';
+  }
+}
+
+// Sends one request to a fresh worker and resolves with its result. Aborting
+// rejects with the signal's reason; the worker is stopped either way. The
+// caller creates the worker, bundlers only pick up `new Worker(new URL(...))`
+// where the worker file is named.
+export async function runAudioWorker<Response extends AudioWorkerResponse>(
+  createWorker: () => Worker,
+  message: unknown,
+  transfer: Transferable[],
+  signal?: AbortSignal,
+  onProgress?: (progress: number) => void
+): Promise<Extract<Response, { type: 'result' }>> {
+  signal?.throwIfAborted();
+
+  let worker: Worker | null = null;
+  let handleAbort = () => {};
+  try {
+    const active = createWorker();
+    worker = active;
+    return await new Promise((resolve, reject) => {
+      handleAbort = () => reject(signal?.reason);
+      signal?.addEventListener('abort', handleAbort, { once: true });
+
+      active.onmessage = (event: MessageEvent<Response>) => {
+        const response: AudioWorkerResponse = event.data;
+        if (response.type === 'progress') {
+          onProgress?.(response.progress);
+        } else if (response.type === 'error') {
+          reject(new AudioWorkerError(response.message));
+        } else {
+          resolve(event.data as Extract<Response, { type: 'result' }>);
+        }
+      };
+      active.onerror = (event) => reject(new AudioWorkerError(event.message));
+      active.postMessage(message, transfer);
+    });
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+    // Also stops work still running after an abort
+    worker?.terminate();
+  }
+}
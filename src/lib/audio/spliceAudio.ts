@@ -0,0 +1,51 @@
+import { decodeAudioBlob } from '@/lib/audio/decodeAudio';
+import { getRenderFormat, scheduleSegment } from '@/lib/audio/renderAudio';
+
+export type PunchInMode = 'overwrite' | 'insert';
+
+export interface SplicedAudio {
+  blob: Blob;
+  durationMs: number;
+  // Where the take starts and how long it lasts in the result
+  takeOffsetMs: number;
+  takeDurationMs: number;
+}
+
+// Places `take` at `atSeconds` of `base`, either replacing everything after
+// that point or pushing it back, and renders the result with short fades at
+// each join. See getRenderFormat for what it is stored as.
+export async function spliceAudio(
+  base: Blob,
+  take: Blob,
+  atSeconds: number,
+  mode: PunchInMode
+): Promise<SplicedAudio> {
+  const { sampleRate, encode } = await getRenderFormat([base, take]);
+  const baseBuffer = await decodeAudioBlob(base, sampleRate);
+  const takeBuffer = await decodeAudioBlob(take, sampleRate);
+
+  const at = Math.max(0, Math.min(atSeconds, baseBuffer.duration));
+  const tail = mode === 'insert' ? baseBuffer.duration - at : 0;
+  const duration = at + takeBuffer.duration + tail;
+  const channelCount = Math.max(
+    baseBuffer.numberOfChannels,
+    takeBuffer.numberOfChannels
+  );
+
+  const context = new OfflineAudioContext(
+    channelCount,
+    Math.ceil(duration * sampleRate),
+    sampleRate
+  );
+  scheduleSegment(context, baseBuffer, 0, 0, at);
+  scheduleSegment(context, takeBuffer, at, 0, takeBuffer.duration);
+  scheduleSegment(context, baseBuffer, at + takeBuffer.duration, at, tail);
+
+  const rendered = await context.startRendering();
+  return {
+    blob: await encode(rendered),
+    durationMs: rendered.duration * 1000,
+    takeOffsetMs: at * 1000,
+    takeDurationMs: takeBuffer.duration * 1000,
+  };
+}
@@ -0,0 +1,42 @@
+import { runAudioWorker } from '@/lib/audio/runAudioWorker';
+import type {
+  TimeStretchWorkerRequest,
+  TimeStretchWorkerResponse,
+} from '@/lib/audio/timeStretch.worker';
+
+// Renders a copy of the buffer that plays `rate` times faster at the same
+// pitch. The stretch runs in a worker; aborting rejects with the signal's
+// reason and stops the worker.
+export async function stretchAudioBuffer(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  rate: number,
+  signal?: AbortSignal
+): Promise<AudioBuffer> {
+  signal?.throwIfAborted();
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+    buffer.getChannelData(c).slice()
+  );
+  const request: TimeStretchWorkerRequest = {
+    channels,
+    sampleRate: buffer.sampleRate,
+    rate,
+  };
+
+  const { channels: stretched } =
+    await runAudioWorker<TimeStretchWorkerResponse>(
+      () => new Worker(new URL('./timeStretch.worker.ts', import.meta.url)),
+      request,
+      channels.map((channel) => channel.buffer),
+      signal
+    );
+
+  const result = context.createBuffer(
+    stretched.length,
+    Math.max(1, stretched[0].length),
+    buffer.sampleRate
+  );
+  stretched.forEach((channel, c) => result.copyToChannel(channel, c));
+  return result;
+}
@@ -0,0 +1,126 @@
+// WSOLA time-stretch: the output is built from overlapping windowed frames of
+// the input, each taken from wherever within a small tolerance it best
+// continues the previous one. Speed changes, pitch does not.
+
+const FRAME_SECONDS = 0.04;
+const TOLERANCE_SECONDS = 0.008;
+// The search first runs on a sparse grid, then around the best candidate
+const COARSE_POSITION_STEP = 4;
+const COARSE_SAMPLE_STEP = 8;
+const FINE_SAMPLE_STEP = 2;
+
+export const MIN_STRETCH_RATE = 0.5;
+export const MAX_STRETCH_RATE = 4;
+
+const mixDown = (channels: Float32Array[]) => {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i];
+  }
+  return mono;
+};
+
+// Normalized so loud candidates are not favoured just for being loud
+const similarity = (
+  signal: Float32Array,
+  candidate: number,
+  target: number,
+  length: number,
+  step: number
+) => {
+  let dot = 0;
+  let energy = 0;
+  for (let j = 0; j < length; j += step) {
+    const value = signal[candidate + j];
+    dot += value * signal[target + j];
+    energy += value * value;
+  }
+  return energy > 0 ? dot / Math.sqrt(energy) : 0;
+};
+
+const findBestPosition = (
+  signal: Float32Array,
+  target: number,
+  nominal: number,
+  tolerance: number,
+  frame: number
+) => {
+  const overlap = frame / 2;
+  const lowest = Math.max(0, nominal - tolerance);
+  const highest = Math.min(signal.length - frame, nominal + tolerance);
+  if (highest < lowest || target + overlap > signal.length) {
+    return Math.max(0, Math.min(nominal, signal.length - frame));
+  }
+
+  let best = lowest;
+  let bestScore = -Infinity;
+  for (let q = lowest; q <= highest; q += COARSE_POSITION_STEP) {
+    const score = similarity(signal, q, target, overlap, COARSE_SAMPLE_STEP);
+    if (score > bestScore) {
+      bestScore = score;
+      best = q;
+    }
+  }
+
+  const coarse = best;
+  bestScore = -Infinity;
+  const from = Math.max(lowest, coarse - COARSE_POSITION_STEP + 1);
+  const to = Math.min(highest, coarse + COARSE_POSITION_STEP - 1);
+  for (let q = from; q <= to; q++) {
+    const score = similarity(signal, q, target, overlap, FINE_SAMPLE_STEP);
+    if (score > bestScore) {
+      bestScore = score;
+      best = q;
+    }
+  }
+  return best;
+};
+
+// `rate` above 1 makes the audio shorter and faster
+export function timeStretch(
+  channels: Float32Array[],
+  sampleRate: number,
+  rate: number
+): Float32Array[] {
+  const inputLength = channels[0]?.length ?? 0;
+  if (rate === 1 || inputLength === 0) {
+    return channels.map((channel) => channel.slice());
+  }
+
+  // Even, so the half-overlapping Hann windows sum to exactly one
+  const frame = 2 * Math.round((FRAME_SECONDS * sampleRate) / 2);
+  const hop = frame / 2;
+  const tolerance = Math.round(TOLERANCE_SECONDS * sampleRate);
+  const window = new Float32Array(frame);
+  for (let i = 0; i < frame; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame);
+  }
+
+  const mono = mixDown(channels);
+  const outputLength = Math.ceil(inputLength / rate);
+  const outputs = channels.map(() => new Float32Array(outputLength + frame));
+
+  let previous = 0;
+  for (let k = 0; k * hop < outputLength; k++) {
+    const nominal = Math.round(k * hop * rate);
+    const position =
+      k === 0
+        ? 0
+        : findBestPosition(mono, previous + hop, nominal, tolerance, frame);
+
+    const outputStart = k * hop;
+    const length = Math.min(frame, inputLength - position);
+    channels.forEach((channel, c) => {
+      const output = outputs[c];
+      for (let i = 0; i < length; i++) {
+        // Nothing overlaps the rising half of the first frame
+        const gain = k === 0 && i < hop ? 1 : window[i];
+        output[outputStart + i] += gain * channel[position + i];
+      }
+    });
+    previous = position;
+  }
+
+  return outputs.map((output) => output.slice(0, outputLength));
+}
@@ -0,0 +1,33 @@
+import { timeStretch } from '@/lib/audio/timeStretch';
+
+export interface TimeStretchWorkerRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  rate: number;
+}
+
+export type TimeStretchWorkerResponse =
+  | { type: 'result'; channels: Float32Array[] }
+  | { type: 'error'; message: string };
+
+addEventListener('message', (event: MessageEvent<TimeStretchWorkerRequest>) => {
+  const { channels, sampleRate, rate } = event.data;
+  let response: TimeStretchWorkerResponse;
+  try {
+    response = {
+      type: 'result',
+      channels: timeStretch(channels, sampleRate, rate),
+    };
+  } catch (error) {
+    response = {
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+  postMessage(response, {
+    transfer:
+      response.type === 'result'
+        ? response.channels.map((channel) => channel.buffer)
+        : [],
+  });
+});
@@ -0,0 +1,86 @@
+import { decodeAudioBlob } from '@/lib/audio/decodeAudio';
+import type { AudioRange } from '@/lib/audio/editAudio';
+
+// Energy-based voice-activity detection. With the browser's noise
+// suppression on, the floor between words sits far below any speech, so a
+// level threshold is enough.
+
+// Speech rarely drops below this, even from across the room
+export const DEFAULT_SPEECH_THRESHOLD_DB = -45;
+// Long enough that pauses to think or breathe are never cut or paused on
+export const DEFAULT_SILENCE_SECONDS = 8;
+
+const FRAME_SECONDS = 0.02;
+// Low enough to be fast on long recordings, high enough for speech energy
+const DETECTION_SAMPLE_RATE = 8000;
+// Silence left on both sides of a removed stretch, so speech is not clipped
+const SILENCE_PADDING_SECONDS = 0.3;
+
+export interface SilenceOptions {
+  thresholdDb?: number;
+  // Only silences at least this long are reported
+  minSilenceSeconds?: number;
+}
+
+// RMS level in dBFS, -Infinity for digital silence
+export function levelDb(
+  samples: Float32Array,
+  from = 0,
+  to = samples.length
+): number {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  const count = to - from;
+  return count > 0 ? 10 * Math.log10(sum / count) : -Infinity;
+}
+
+// Stretches quieter than the threshold, in seconds, shrunk by the padding
+// on each side. A silence reaching either end of the audio is kept whole
+// on that end. Audio without any speech has nothing worth keeping, so no
+// silences are reported for it.
+export function findSilences(
+  samples: Float32Array,
+  sampleRate: number,
+  options: SilenceOptions = {}
+): AudioRange[] {
+  const {
+    thresholdDb = DEFAULT_SPEECH_THRESHOLD_DB,
+    minSilenceSeconds = DEFAULT_SILENCE_SECONDS,
+  } = options;
+  const frame = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+  const duration = samples.length / sampleRate;
+
+  const silences: AudioRange[] = [];
+  let heardSpeech = false;
+  let silentFrom: number | null = null;
+  const close = (end: number) => {
+    if (silentFrom === null) return;
+    const start = silentFrom;
+    silentFrom = null;
+    if (end - start < minSilenceSeconds) return;
+    const from = start > 0 ? start + SILENCE_PADDING_SECONDS : 0;
+    const to = end < duration ? end - SILENCE_PADDING_SECONDS : duration;
+    if (to > from) silences.push({ start: from, end: to });
+  };
+
+  for (let i = 0; i < samples.length; i += frame) {
+    const quiet =
+      levelDb(samples, i, Math.min(i + frame, samples.length)) < thresholdDb;
+    if (quiet && silentFrom === null) silentFrom = i / sampleRate;
+    if (!quiet) {
+      heardSpeech = true;
+      close(i / sampleRate);
+    }
+  }
+  close(duration);
+  return heardSpeech ? silences : [];
+}
+
+// Silences of a recording, measured on its first channel
+export async function detectSilences(
+  blob: Blob,
+  options: SilenceOptions = {}
+): Promise<AudioRange[]> {
+  const buffer = await decodeAudioBlob(blob, DETECTION_SAMPLE_RATE);
+  return findSilences(buffer.getChannelData(0), buffer.sampleRate, options);
+}
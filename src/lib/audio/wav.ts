@@ -0,0 +1,182 @@
+// Minimal RIFF/WAVE reading and writing for PCM audio.
+
+export type WavBitDepth = 16 | 24 | 32;
+
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  bitDepth: WavBitDepth;
+}
+
+export interface WavInfo extends WavFormat {
+  // Byte range of the PCM samples inside the file
+  dataOffset: number;
+  dataLength: number;
+}
+
+export const WAV_HEADER_SIZE = 44;
+// Data size written while a file is still being streamed
+export const STREAMING_DATA_LENGTH = 0xffffffff;
+const PCM_FORMAT = 1;
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+const readString = (view: DataView, offset: number, length: number) => {
+  let value = '';
+  for (let i = 0; i < length; i++) {
+    value += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return value;
+};
+
+export function createWavHeader(
+  format: WavFormat,
+  dataLength: number
+): ArrayBuffer {
+  const { sampleRate, channels, bitDepth } = format;
+  const blockAlign = channels * (bitDepth / 8);
+  const header = new ArrayBuffer(WAV_HEADER_SIZE);
+  const view = new DataView(header);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, Math.min(36 + dataLength, STREAMING_DATA_LENGTH), true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, PCM_FORMAT, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  return header;
+}
+
+// Returns null for anything that is not uncompressed PCM WAV. `buffer` may be
+// just the start of a file whose full size is `fileSize`.
+export function parseWavHeader(
+  buffer: ArrayBuffer,
+  fileSize = buffer.byteLength
+): WavInfo | null {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < WAV_HEADER_SIZE) return null;
+  if (readString(view, 0, 4) !== 'RIFF' || readString(view, 8, 4) !== 'WAVE')
+    return null;
+
+  let format: WavFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readString(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      if (view.getUint16(body, true) !== PCM_FORMAT) return null;
+      format = {
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitDepth: view.getUint16(body + 14, true) as WavBitDepth,
+      };
+    } else if (id === 'data' && format) {
+      // Streamed files carry a placeholder size until they are finalized
+      const sizeKnown = size > 0 && size !== 0xffffffff;
+      const dataLength = sizeKnown
+        ? Math.min(size, fileSize - body)
+        : fileSize - body;
+      return { ...format, dataOffset: body, dataLength };
+    }
+
+    // Chunks are padded to an even size
+    offset = body + size + (size % 2);
+  }
+
+  return null;
+}
+
+// Enough to reach the data chunk past any metadata chunks
+const HEADER_PROBE_SIZE = 4096;
+
+export async function readWavInfo(blob: Blob): Promise<WavInfo | null> {
+  return parseWavHeader(
+    await blob.slice(0, HEADER_PROBE_SIZE).arrayBuffer(),
+    blob.size
+  );
+}
+
+export function isSameWavFormat(a: WavFormat, b: WavFormat) {
+  return (
+    a.sampleRate === b.sampleRate &&
+    a.channels === b.channels &&
+    a.bitDepth === b.bitDepth
+  );
+}
+
+// Interleaves and quantizes float samples in [-1, 1]
+export function encodePcm(
+  channels: Float32Array[],
+  bitDepth: WavBitDepth
+): ArrayBuffer {
+  const length = channels[0]?.length ?? 0;
+  const bytesPerSample = bitDepth / 8;
+  const buffer = new ArrayBuffer(length * channels.length * bytesPerSample);
+  const view = new DataView(buffer);
+
+  let offset = 0;
+  for (let i = 0; i < length; i++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[i]));
+      if (bitDepth === 16) {
+        view.setInt16(
+          offset,
+          sample < 0 ? sample * 0x8000 : sample * 0x7fff,
+          true
+        );
+      } else if (bitDepth === 24) {
+        const value = Math.round(
+          sample < 0 ? sample * 0x800000 : sample * 0x7fffff
+        );
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      } else {
+        view.setInt32(
+          offset,
+          sample < 0 ? sample * 0x80000000 : sample * 0x7fffffff,
+          true
+        );
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
+
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: WavBitDepth = 16
+): Blob {
+  const pcm = encodePcm(channels, bitDepth);
+  const header = createWavHeader(
+    { sampleRate, channels: channels.length, bitDepth },
+    pcm.byteLength
+  );
+  return new Blob([header, pcm], { type: 'audio/wav' });
+}
+
+// Rewrites the placeholder sizes of a streamed file once it is complete.
+// The chunks must start with the 44-byte header from createWavHeader.
+export function finalizeStreamedWav(chunks: Blob[], format: WavFormat): Blob {
+  const data = new Blob(chunks).slice(WAV_HEADER_SIZE);
+  return new Blob([createWavHeader(format, data.size), data], {
+    type: 'audio/wav',
+  });
+}
@@ -0,0 +1,578 @@
+// Rewrites a WebM file as MediaRecorder leaves it, with unknown sizes, no
+// Duration and no Cues, into one players can show the length of and seek in.
+// Only the elements needed for that are understood, everything else inside
+// the Segment is copied as it is.
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Void: 0xec,
+} as const;
+
+// Elements that end a Cluster of unknown size
+const SEGMENT_LEVEL_IDS = new Set<number>([
+  ID.EBML,
+  ID.Segment,
+  ID.SeekHead,
+  ID.Info,
+  ID.Tracks,
+  ID.Cluster,
+  ID.Cues,
+  0x1941a469, // Attachments
+  0x1043a770, // Chapters
+  0x1254c367, // Tags
+]);
+
+const AUDIO_TRACK_TYPE = 2;
+const DEFAULT_TIMECODE_SCALE = 1_000_000;
+
+export class WebmParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebmParseError';
+  }
+}
+
+interface Element {
+  id: number;
+  // Where the element and its data start, and where it ends
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+interface ParsedCluster {
+  timecode: number;
+  // Children without the Cluster header
+  body: Uint8Array;
+}
+
+interface ParsedBlock {
+  // Absolute, in timecode units
+  time: number;
+  // The SimpleBlock or BlockGroup as it is in the file
+  bytes: Uint8Array;
+  // Where the block's relative timecode sits inside `bytes`
+  timeOffset: number;
+}
+
+interface ParsedWebm {
+  bytes: Uint8Array;
+  header: Element;
+  timecodeScale: number;
+  hasDuration: boolean;
+  hasCues: boolean;
+  info: Element | null;
+  tracks: Element | null;
+  // The track the cues point at
+  cueTrack: number;
+  others: Uint8Array[];
+  clusters: ParsedCluster[];
+  blocks: ParsedBlock[];
+  // In timecode units
+  duration: number;
+}
+
+export interface WebmFixResult {
+  buffer: ArrayBuffer;
+  // Null when the file did not need fixing
+  durationMs: number | null;
+}
+
+export interface WebmConcatResult {
+  buffer: ArrayBuffer;
+  // Where each input starts in the result
+  offsetsMs: number[];
+  durationMs: number;
+}
+
+const readVint = (bytes: Uint8Array, pos: number) => {
+  const first = bytes[pos];
+  if (first === undefined || first === 0) {
+    throw new WebmParseError(`Invalid variable-size integer at ${pos}`);
+  }
+  const length = Math.clz32(first) - 23;
+  if (pos + length > bytes.length) {
+    throw new WebmParseError(`Truncated variable-size integer at ${pos}`);
+  }
+
+  let value = first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[pos + i];
+    allOnes = allOnes && bytes[pos + i] === 0xff;
+  }
+  return { length, value, unknown: allOnes };
+};
+
+const readId = (bytes: Uint8Array, pos: number) => {
+  const { length } = readVint(bytes, pos);
+  let id = 0;
+  for (let i = 0; i < length; i++) id = id * 256 + bytes[pos + i];
+  return { id, length };
+};
+
+const readUint = (bytes: Uint8Array, start: number, end: number) => {
+  let value = 0;
+  for (let i = start; i < end; i++) value = value * 256 + bytes[i];
+  return value;
+};
+
+const readFloat = (bytes: Uint8Array, start: number, end: number) => {
+  const view = new DataView(
+    bytes.buffer,
+    bytes.byteOffset + start,
+    end - start
+  );
+  if (end - start === 4) return view.getFloat32(0);
+  if (end - start === 8) return view.getFloat64(0);
+  return 0;
+};
+
+// Reads the header of the element at `pos`. Unknown sizes, and sizes past the
+// end of a truncated file, end at `limit`.
+const readElement = (
+  bytes: Uint8Array,
+  pos: number,
+  limit: number
+): Element => {
+  const { id, length: idLength } = readId(bytes, pos);
+  const size = readVint(bytes, pos + idLength);
+  const dataStart = pos + idLength + size.length;
+  const end = size.unknown ? limit : Math.min(dataStart + size.value, limit);
+  return { id, start: pos, dataStart, end };
+};
+
+const readChildren = (bytes: Uint8Array, parent: Element): Element[] => {
+  const children: Element[] = [];
+  let pos = parent.dataStart;
+  while (pos < parent.end) {
+    const child = readElement(bytes, pos, parent.end);
+    children.push(child);
+    pos = child.end;
+  }
+  return children;
+};
+
+// Where a Cluster of unknown size ends: at the next segment-level element.
+// A block cut off by a crash is dropped.
+const findClusterEnd = (bytes: Uint8Array, cluster: Element) => {
+  let pos = cluster.dataStart;
+  while (pos < cluster.end) {
+    let next: Element;
+    try {
+      const { id } = readId(bytes, pos);
+      if (SEGMENT_LEVEL_IDS.has(id)) return pos;
+      next = readElement(bytes, pos, Number.MAX_SAFE_INTEGER);
+    } catch {
+      return pos;
+    }
+    if (next.end > cluster.end) return pos;
+    pos = next.end;
+  }
+  return cluster.end;
+};
+
+const encodeId = (id: number) => {
+  const length = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1;
+  const out = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    out[length - 1 - i] = Math.floor(id / 256 ** i) & 0xff;
+  }
+  return out;
+};
+
+const encodeSize = (size: number) => {
+  let length = 1;
+  // All ones is reserved for unknown sizes
+  while (length < 8 && size >= 2 ** (7 * length) - 1) length++;
+  const out = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    out[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  out[0] |= 0x80 >> (length - 1);
+  return out;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const element = (id: number, ...children: Uint8Array[]) => {
+  const body = concat(children);
+  return concat([encodeId(id), encodeSize(body.length), body]);
+};
+
+// `width` fixes the size, so positions can be written before they are known
+const uintElement = (id: number, value: number, width?: number) => {
+  let length = width ?? 1;
+  while (!width && length < 8 && value >= 256 ** length) length++;
+  const out = new Uint8Array(length);
+  let rest = value;
+  for (let i = length - 1; i >= 0; i--) {
+    out[i] = rest % 256;
+    rest = Math.floor(rest / 256);
+  }
+  return element(id, out);
+};
+
+const floatElement = (id: number, value: number) => {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setFloat64(0, value);
+  return element(id, out);
+};
+
+const SEEK_POSITION_WIDTH = 8;
+
+const seekHead = (positions: [number, number][]) =>
+  element(
+    ID.SeekHead,
+    ...positions.map(([id, position]) =>
+      element(
+        ID.Seek,
+        element(ID.SeekID, encodeId(id)),
+        uintElement(ID.SeekPosition, position, SEEK_POSITION_WIDTH)
+      )
+    )
+  );
+
+// Block timecodes are relative to their cluster, as a signed 16-bit value
+// after the track number
+const blockTimeOffset = (bytes: Uint8Array, block: Element) =>
+  block.dataStart + readVint(bytes, block.dataStart).length;
+
+const readBlockTime = (bytes: Uint8Array, block: Element) => {
+  const offset = blockTimeOffset(bytes, block);
+  const relative = (bytes[offset] << 8) | bytes[offset + 1];
+  return relative >= 0x8000 ? relative - 0x10000 : relative;
+};
+
+// `outer` is what gets copied, `block` holds the timecode. They differ for
+// a Block inside a BlockGroup.
+const parseBlock = (
+  bytes: Uint8Array,
+  outer: Element,
+  block: Element,
+  clusterTimecode: number
+): ParsedBlock => ({
+  time: clusterTimecode + readBlockTime(bytes, block),
+  bytes: bytes.subarray(outer.start, outer.end),
+  timeOffset: blockTimeOffset(bytes, block) - outer.start,
+});
+
+const parseWebm = (bytes: Uint8Array): ParsedWebm => {
+  const header = readElement(bytes, 0, bytes.length);
+  if (header.id !== ID.EBML) throw new WebmParseError('Not an EBML file');
+  const segment = readElement(bytes, header.end, bytes.length);
+  if (segment.id !== ID.Segment) throw new WebmParseError('No Segment found');
+
+  let timecodeScale = DEFAULT_TIMECODE_SCALE;
+  let hasDuration = false;
+  let hasCues = false;
+  let info: Element | null = null;
+  let tracks: Element | null = null;
+  let audioTrack: number | null = null;
+  // Used when no entry is typed as audio
+  let firstTrack: number | null = null;
+  const others: Uint8Array[] = [];
+  const clusters: ParsedCluster[] = [];
+  const blocks: ParsedBlock[] = [];
+
+  let pos = segment.dataStart;
+  while (pos < segment.end) {
+    let child: Element;
+    try {
+      child = readElement(bytes, pos, segment.end);
+    } catch {
+      // Trailing garbage from a recording that was cut off
+      break;
+    }
+    if (child.id === ID.Cluster) {
+      child.end = findClusterEnd(bytes, child);
+    }
+
+    switch (child.id) {
+      case ID.Info:
+        info = child;
+        for (const field of readChildren(bytes, child)) {
+          if (field.id === ID.TimecodeScale) {
+            timecodeScale = readUint(bytes, field.dataStart, field.end);
+          } else if (field.id === ID.Duration) {
+            const duration = readFloat(bytes, field.dataStart, field.end);
+            hasDuration = Number.isFinite(duration) && duration > 0;
+          }
+        }
+        break;
+      case ID.Tracks:
+        tracks = child;
+        for (const entry of readChildren(bytes, child)) {
+          if (entry.id !== ID.TrackEntry) continue;
+          let number: number | null = null;
+          let type: number | null = null;
+          for (const field of readChildren(bytes, entry)) {
+            if (field.id === ID.TrackNumber) {
+              number = readUint(bytes, field.dataStart, field.end);
+            } else if (field.id === ID.TrackType) {
+              type = readUint(bytes, field.dataStart, field.end);
+            }
+          }
+          firstTrack = firstTrack ?? number;
+          if (type === AUDIO_TRACK_TYPE && audioTrack === null) {
+            audioTrack = number;
+          }
+        }
+        break;
+      case ID.Cluster: {
+        let timecode = 0;
+        const children = readChildren(bytes, child);
+        for (const block of children) {
+          if (block.id === ID.Timecode) {
+            timecode = readUint(bytes, block.dataStart, block.end);
+          } else if (block.id === ID.SimpleBlock) {
+            blocks.push(parseBlock(bytes, block, block, timecode));
+          } else if (block.id === ID.BlockGroup) {
+            const inner = readChildren(bytes, block).find(
+              (e) => e.id === ID.Block
+            );
+            if (inner) {
+              blocks.push(parseBlock(bytes, block, inner, timecode));
+            }
+          }
+        }
+        clusters.push({
+          timecode,
+          body: bytes.subarray(child.dataStart, child.end),
+        });
+        break;
+      }
+      case ID.Cues:
+        hasCues = true;
+        break;
+      case ID.SeekHead:
+      case ID.Void:
+        // Rewritten on output, the old positions would be wrong
+        break;
+      default:
+        // Anything else at this level is left over from a cut-off block
+        if (SEGMENT_LEVEL_IDS.has(child.id)) {
+          others.push(bytes.subarray(child.start, child.end));
+        }
+    }
+    pos = child.end;
+  }
+
+  // The last block lasts about as long as the gap before it
+  const times = blocks.map((block) => block.time).sort((a, b) => a - b);
+  const last = times.at(-1) ?? 0;
+  const frame = times.length > 1 ? last - (times.at(-2) as number) : 0;
+
+  return {
+    bytes,
+    header,
+    timecodeScale,
+    hasDuration,
+    hasCues,
+    info,
+    tracks,
+    cueTrack: audioTrack ?? firstTrack ?? 1,
+    others,
+    clusters,
+    blocks,
+    duration: last + frame,
+  };
+};
+
+// Lays out the Segment of `source` again around `clusters`, with a Duration
+// and a Cues element pointing at every cluster
+const writeWebm = (
+  source: ParsedWebm,
+  clusters: ParsedCluster[],
+  duration: number
+): ArrayBuffer => {
+  const { bytes, header, info, tracks, others } = source;
+  if (!info || !tracks || clusters.length === 0) {
+    throw new WebmParseError('Missing Info, Tracks or Clusters');
+  }
+
+  const infoFields = readChildren(bytes, info)
+    .filter((field) => field.id !== ID.Duration && field.id !== ID.Void)
+    .map((field) => bytes.subarray(field.start, field.end));
+  const infoBytes = element(
+    ID.Info,
+    ...infoFields,
+    floatElement(ID.Duration, duration)
+  );
+  const tracksBytes = bytes.subarray(tracks.start, tracks.end);
+  const clusterBytes = clusters.map((cluster) =>
+    element(ID.Cluster, cluster.body)
+  );
+
+  // Positions are relative to the start of the Segment data. The SeekHead
+  // has a fixed size, so it can be measured with placeholder positions.
+  const seekIds = [ID.Info, ID.Tracks, ID.Cues];
+  const seekSize = seekHead(seekIds.map((id) => [id, 0])).length;
+  const infoPosition = seekSize;
+  const tracksPosition = infoPosition + infoBytes.length;
+  let position =
+    tracksPosition +
+    tracksBytes.length +
+    others.reduce((sum, part) => sum + part.length, 0);
+
+  const cuePoints = clusters.map((cluster, i) => {
+    const cue = element(
+      ID.CuePoint,
+      uintElement(ID.CueTime, cluster.timecode),
+      element(
+        ID.CueTrackPositions,
+        uintElement(ID.CueTrack, source.cueTrack),
+        uintElement(ID.CueClusterPosition, position)
+      )
+    );
+    position += clusterBytes[i].length;
+    return cue;
+  });
+  const cuesPosition = position;
+  const cuesBytes = element(ID.Cues, ...cuePoints);
+
+  const segmentBody = concat([
+    seekHead([
+      [ID.Info, infoPosition],
+      [ID.Tracks, tracksPosition],
+      [ID.Cues, cuesPosition],
+    ]),
+    infoBytes,
+    tracksBytes,
+    ...others,
+    ...clusterBytes,
+    cuesBytes,
+  ]);
+  return concat([
+    bytes.subarray(header.start, header.end),
+    element(ID.Segment, segmentBody),
+  ]).buffer;
+};
+
+export function fixWebm(input: ArrayBuffer): WebmFixResult {
+  const webm = parseWebm(new Uint8Array(input));
+  if (webm.hasDuration && webm.hasCues) {
+    return { buffer: input, durationMs: null };
+  }
+
+  return {
+    buffer: writeWebm(webm, webm.clusters, webm.duration),
+    durationMs: (webm.duration * webm.timecodeScale) / 1_000_000,
+  };
+}
+
+// Blocks of one file only decode in another with the same codec setup.
+// Everything but the UIDs, which are random per recording, has to match.
+const trackSignature = ({ bytes, tracks }: ParsedWebm) =>
+  concat(
+    tracks
+      ? readChildren(bytes, tracks).flatMap((entry) =>
+          readChildren(bytes, entry)
+            .filter((field) => field.id !== ID.TrackUID)
+            .map((field) => bytes.subarray(field.start, field.end))
+        )
+      : []
+  );
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((value, i) => value === b[i]);
+
+// New clusters start every few seconds, well within the 16-bit range of
+// the relative block timecodes
+const CLUSTER_SECONDS = 5;
+const MAX_CLUSTER_SPAN = 0x7fff;
+
+const packClusters = (
+  blocks: { block: ParsedBlock; time: number }[],
+  span: number
+): ParsedCluster[] => {
+  const clusters: { timecode: number; parts: Uint8Array[] }[] = [];
+  for (const { block, time } of blocks) {
+    let cluster = clusters.at(-1);
+    if (!cluster || time - cluster.timecode >= span) {
+      cluster = { timecode: time, parts: [] };
+      clusters.push(cluster);
+    }
+    const relative = time - cluster.timecode;
+    const copy = block.bytes.slice();
+    copy[block.timeOffset] = (relative >> 8) & 0xff;
+    copy[block.timeOffset + 1] = relative & 0xff;
+    cluster.parts.push(copy);
+  }
+  return clusters.map(({ timecode, parts }) => ({
+    timecode,
+    body: concat([uintElement(ID.Timecode, timecode), ...parts]),
+  }));
+};
+
+// Appends the inputs one after another by copying their blocks, so the
+// audio is never decoded or re-encoded. Inputs whose tracks differ throw.
+export function concatWebm(inputs: ArrayBuffer[]): WebmConcatResult {
+  const parsed = inputs.map((input) => parseWebm(new Uint8Array(input)));
+  const [first] = parsed;
+  const signature = trackSignature(first);
+  for (const webm of parsed) {
+    if (
+      webm.timecodeScale !== first.timecodeScale ||
+      !sameBytes(trackSignature(webm), signature)
+    ) {
+      throw new WebmParseError('The inputs have different tracks');
+    }
+  }
+
+  const toMs = (units: number) => (units * first.timecodeScale) / 1_000_000;
+  const blocks: { block: ParsedBlock; time: number }[] = [];
+  const offsetsMs: number[] = [];
+  let cursor = 0;
+  for (const webm of parsed) {
+    offsetsMs.push(toMs(cursor));
+    for (const block of webm.blocks) {
+      blocks.push({ block, time: cursor + block.time });
+    }
+    cursor += webm.duration;
+  }
+
+  const span = Math.min(
+    MAX_CLUSTER_SPAN,
+    Math.round((CLUSTER_SECONDS * 1_000_000_000) / first.timecodeScale)
+  );
+  return {
+    buffer: writeWebm(first, packClusters(blocks, span), cursor),
+    offsetsMs,
+    durationMs: toMs(cursor),
+  };
+}
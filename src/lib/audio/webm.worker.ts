@@ -0,0 +1,21 @@
+import { fixWebm } from '@/lib/audio/webm';
+
+export type WebmWorkerResponse =
+  | { type: 'result'; buffer: ArrayBuffer; durationMs: number | null }
+  | { type: 'error'; message: string };
+
+addEventListener('message', (event: MessageEvent<ArrayBuffer>) => {
+  let response: WebmWorkerResponse;
+  try {
+    const { buffer, durationMs } = fixWebm(event.data);
+    response = { type: 'result', buffer, durationMs };
+  } catch (error) {
+    response = {
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+  postMessage(response, {
+    transfer: response.type === 'result' ? [response.buffer] : [],
+  });
+});
@@ -0,0 +1,222 @@
+// IndexedDB persistence for recording chunks, so an unfinished recording can
+// be rebuilt after a crash, a killed PWA or a dead battery.
+
+const DB_NAME = 'recorderpwa';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const CHUNKS_STORE = 'chunks';
+
+export interface StoredRecordingSession {
+  id: string;
+  mimeType: string;
+  startedAt: number;
+  updatedAt: number;
+  chunkCount: number;
+  size: number;
+  // Set once the recorder stopped cleanly and produced its blob
+  finishedAt: number | null;
+}
+
+interface StoredChunk {
+  sessionId: string;
+  seq: number;
+  // Stored as ArrayBuffer, Safari has been unreliable storing Blobs
+  data: ArrayBuffer;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const promisifyTransaction = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = () => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+        const chunks = db.createObjectStore(CHUNKS_STORE, {
+          keyPath: ['sessionId', 'seq'],
+        });
+        chunks.createIndex('sessionId', 'sessionId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+
+  return dbPromise;
+};
+
+export async function createRecordingSession(
+  id: string,
+  mimeType: string
+): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  const now = Date.now();
+  const session: StoredRecordingSession = {
+    id,
+    mimeType,
+    startedAt: now,
+    updatedAt: now,
+    chunkCount: 0,
+    size: 0,
+    finishedAt: null,
+  };
+  transaction.objectStore(SESSIONS_STORE).put(session);
+  await promisifyTransaction(transaction);
+}
+
+export async function saveRecordingChunk(
+  sessionId: string,
+  seq: number,
+  blob: Blob
+): Promise<void> {
+  const data = await blob.arrayBuffer();
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [SESSIONS_STORE, CHUNKS_STORE],
+    'readwrite'
+  );
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+
+  const chunk: StoredChunk = { sessionId, seq, data };
+  transaction.objectStore(CHUNKS_STORE).put(chunk);
+
+  const session = await promisifyRequest<StoredRecordingSession | undefined>(
+    sessions.get(sessionId)
+  );
+  if (session) {
+    sessions.put({
+      ...session,
+      updatedAt: Date.now(),
+      chunkCount: session.chunkCount + 1,
+      size: session.size + data.byteLength,
+    });
+  }
+
+  await promisifyTransaction(transaction);
+}
+
+export async function finishRecordingSession(sessionId: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  const session = await promisifyRequest<StoredRecordingSession | undefined>(
+    sessions.get(sessionId)
+  );
+  if (session) {
+    sessions.put({ ...session, finishedAt: Date.now() });
+  }
+  await promisifyTransaction(transaction);
+}
+
+export async function listRecordingSessions(): Promise<
+  StoredRecordingSession[]
+> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+  const sessions = await promisifyRequest<StoredRecordingSession[]>(
+    transaction.objectStore(SESSIONS_STORE).getAll()
+  );
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+// Rebuilds the recording with the MIME type it was recorded with
+export async function loadRecordingSessionBlob(
+  sessionId: string
+): Promise<Blob | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [SESSIONS_STORE, CHUNKS_STORE],
+    'readonly'
+  );
+  const session = await promisifyRequest<StoredRecordingSession | undefined>(
+    transaction.objectStore(SESSIONS_STORE).get(sessionId)
+  );
+  if (!session) return null;
+
+  const chunks = await promisifyRequest<StoredChunk[]>(
+    transaction
+      .objectStore(CHUNKS_STORE)
+      .index('sessionId')
+      .getAll(IDBKeyRange.only(sessionId))
+  );
+  if (chunks.length === 0) return null;
+
+  chunks.sort((a, b) => a.seq - b.seq);
+  return new Blob(
+    chunks.map((chunk) => chunk.data),
+    { type: session.mimeType }
+  );
+}
+
+export async function deleteRecordingSession(sessionId: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [SESSIONS_STORE, CHUNKS_STORE],
+    'readwrite'
+  );
+  transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+  transaction
+    .objectStore(CHUNKS_STORE)
+    .delete(IDBKeyRange.bound([sessionId, -Infinity], [sessionId, Infinity]));
+  await promisifyTransaction(transaction);
+}
+
+// A session being recorded is held under a Web Lock. Locks are visible to
+// every tab of the origin and go away with the tab that held them, so a
+// crashed tab's session becomes recoverable right away.
+const SESSION_LOCK_PREFIX = `${DB_NAME}:session:`;
+
+const hasLocks = () =>
+  typeof navigator !== 'undefined' && navigator.locks !== undefined;
+
+// Holds the session's lock until the returned function is called
+export function lockRecordingSession(sessionId: string): () => void {
+  if (!hasLocks()) return () => {};
+  let release = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  navigator.locks
+    .request(SESSION_LOCK_PREFIX + sessionId, () => released)
+    .catch((error) => console.error('Error locking recording session:', error));
+  return release;
+}
+
+// Sessions some tab is still recording into
+export async function listLiveRecordingSessionIds(): Promise<Set<string>> {
+  if (!hasLocks()) return new Set();
+  const { held = [], pending = [] } = await navigator.locks.query();
+  return new Set(
+    [...held, ...pending]
+      .map((lock) => lock.name ?? '')
+      .filter((name) => name.startsWith(SESSION_LOCK_PREFIX))
+      .map((name) => name.slice(SESSION_LOCK_PREFIX.length))
+  );
+}
@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Reference storage for the resumable upload routes: every session is a
+// directory of numbered chunk files, concatenated when finalized. Real
+// deployments would swap this for object storage.
+
+const UPLOADS_DIR = path.join(os.tmpdir(), 'recorderpwa-uploads');
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const MAX_CHUNK_BYTES = 10 * 1024 * 1024;
+
+export class UploadStorageError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'UploadStorageError';
+  }
+}
+
+export interface UploadSessionInfo {
+  sessionId: string;
+  mimeType: string;
+  createdAt: number;
+  finalizedAt: number | null;
+  chunkCount: number | null;
+}
+
+// Only ids and sequence numbers that cannot escape the uploads directory
+export const parseSessionId = (value: string) => {
+  if (!SESSION_ID_PATTERN.test(value)) {
+    throw new UploadStorageError('Invalid session id', 400);
+  }
+  return value;
+};
+
+export const parseSeq = (value: string) => {
+  if (!/^\d{1,9}$/.test(value)) {
+    throw new UploadStorageError('Invalid chunk sequence', 400);
+  }
+  return Number(value);
+};
+
+const sessionDir = (sessionId: string) => path.join(UPLOADS_DIR, sessionId);
+const infoPath = (sessionId: string) =>
+  path.join(sessionDir(sessionId), 'session.json');
+const chunkPath = (sessionId: string, seq: number) =>
+  path.join(sessionDir(sessionId), `${seq}.chunk`);
+
+async function readInfo(sessionId: string): Promise<UploadSessionInfo> {
+  try {
+    return JSON.parse(await fs.readFile(infoPath(sessionId), 'utf8'));
+  } catch {
+    throw new UploadStorageError('Upload session not found', 404);
+  }
+}
+
+const writeInfo = (info: UploadSessionInfo) =>
+  fs.writeFile(infoPath(info.sessionId), JSON.stringify(info));
+
+async function listChunks(sessionId: string) {
+  const files = await fs.readdir(sessionDir(sessionId));
+  return files
+    .filter((file) => file.endsWith('.chunk'))
+    .map((file) => Number(file.slice(0, -'.chunk'.length)))
+    .sort((a, b) => a - b);
+}
+
+// Creating an existing session is a no-op so retried requests succeed
+export async function createUploadSession(sessionId: string, mimeType: string) {
+  await fs.mkdir(sessionDir(sessionId), { recursive: true });
+  try {
+    return await readInfo(sessionId);
+  } catch {
+    const info: UploadSessionInfo = {
+      sessionId,
+      mimeType,
+      createdAt: Date.now(),
+      finalizedAt: null,
+      chunkCount: null,
+    };
+    await writeInfo(info);
+    return info;
+  }
+}
+
+export async function getUploadStatus(sessionId: string) {
+  const info = await readInfo(sessionId);
+  return {
+    received: await listChunks(sessionId),
+    finalized: info.finalizedAt !== null,
+  };
+}
+
+export async function saveUploadChunk(
+  sessionId: string,
+  seq: number,
+  data: ArrayBuffer
+) {
+  const info = await readInfo(sessionId);
+  if (info.finalizedAt !== null) {
+    throw new UploadStorageError('Upload session already finalized', 409);
+  }
+  if (data.byteLength > MAX_CHUNK_BYTES) {
+    throw new UploadStorageError('Chunk too large', 413);
+  }
+  // Written aside and renamed, a half-written chunk never looks received
+  const target = chunkPath(sessionId, seq);
+  await fs.writeFile(`${target}.part`, Buffer.from(data));
+  await fs.rename(`${target}.part`, target);
+}
+
+export async function finalizeUploadSession(
+  sessionId: string,
+  chunkCount: number
+) {
+  const info = await readInfo(sessionId);
+  if (info.finalizedAt !== null) return info;
+
+  const received = await listChunks(sessionId);
+  const missing: number[] = [];
+  for (let seq = 0; seq < chunkCount; seq++) {
+    if (!received.includes(seq)) missing.push(seq);
+  }
+  if (missing.length > 0) {
+    throw new UploadStorageError(
+      `Missing chunks: ${missing.slice(0, 20).join(', ')}`,
+      409
+    );
+  }
+
+  const output = path.join(sessionDir(sessionId), 'recording');
+  await fs.writeFile(output, new Uint8Array());
+  for (let seq = 0; seq < chunkCount; seq++) {
+    await fs.appendFile(output, await fs.readFile(chunkPath(sessionId, seq)));
+  }
+
+  const finalized = { ...info, chunkCount, finalizedAt: Date.now() };
+  await writeInfo(finalized);
+  return finalized;
+}
+
+// Deleting a missing session is a no-op so retried requests succeed
+export async function deleteUploadSession(sessionId: string) {
+  await fs.rm(sessionDir(sessionId), { recursive: true, force: true });
+}
+
+export const uploadErrorResponse = (error: unknown) => {
+  if (error instanceof UploadStorageError) {
+    return Response.json({ error: error.message }, { status: error.status });
+  }
+  console.error('❌ Upload route failed:', error);
+  return Response.json({ error: 'Internal error' }, { status: 500 });
+};